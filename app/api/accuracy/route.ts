@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accuracyReport } from '@/lib/accuracy'
+
+export async function GET(request: NextRequest) {
+  try {
+    const feederId = request.nextUrl.searchParams.get('feeder') || undefined
+    return NextResponse.json(await accuracyReport(feederId))
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
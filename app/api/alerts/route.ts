@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAlertEvents } from '@/lib/alerts'
+
+export async function GET(request: NextRequest) {
+  try {
+    const feederId = request.nextUrl.searchParams.get('feeder') || undefined
+    const events = await listAlertEvents(feederId)
+
+    return NextResponse.json({ alerts: events.reverse() })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_FEEDER_ID, getFeeder } from '@/lib/feeders'
+import { getNotificationChannels, notify } from '@/lib/notify'
+
+// Send a test notification through every configured channel
+export async function POST(request: NextRequest) {
+  try {
+    const { feeder_id } = await request.json().catch(() => ({}))
+
+    const feeder = await getFeeder(feeder_id || DEFAULT_FEEDER_ID)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Unknown feeder' },
+        { status: 404 }
+      )
+    }
+
+    if (getNotificationChannels().length === 0) {
+      return NextResponse.json(
+        { error: 'No notification channels configured' },
+        { status: 400 }
+      )
+    }
+
+    const results = await notify({
+      kind: 'test',
+      title: 'Test notification',
+      message: `This is a test alert for ${feeder.name}. Notifications are working!`,
+      feeder,
+      timestamp: new Date().toISOString(),
+    })
+
+    return NextResponse.json({ results })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-interface AnalysisResult {
-  level: number
-  confidence: 'high' | 'medium' | 'low'
-  description: string
-  feeder_visible: boolean
-}
-
-interface AnthropicContent {
-  type: string
-  text?: string
-}
-
-interface AnthropicResponse {
-  content?: AnthropicContent[]
-  error?: {
-    message: string
-  }
-}
+import { alertStatus, checkNectarAge, evaluateReading } from '@/lib/alerts'
+import { validateFrameCalibration } from '@/lib/calibration'
+import { AnalysisError, analyzeImage } from '@/lib/analysis'
+import { identify } from '@/lib/auth'
+import { detectRefill } from '@/lib/events'
+import { ImageError, prepareImage, readUploadBody } from '@/lib/image'
+import { DEFAULT_FEEDER_ID, getFeeder } from '@/lib/feeders'
+import { loadForecast } from '@/lib/forecast'
+import { publish } from '@/lib/live'
+import { validateQuality } from '@/lib/quality'
+import { consumeRequest } from '@/lib/ratelimit'
+import { saveReading, validateCapturedAt } from '@/lib/readings'
+import { smoothReading } from '@/lib/smoothing'
+import { archiveSnapshot, snapshotsEnabled } from '@/lib/snapshots'
+import type { AnalysisResult, AnalyzeResponse, UsageOutcome } from '@/lib/types'
+import { budgetStatus, meterProvider, recordUsage } from '@/lib/usage'
+import { getVisionProvider, VisionProviderError } from '@/lib/vision'
 
 export async function POST(request: NextRequest) {
   try {
-    const { image } = await request.json()
+    const identity = identify(request)
+    if (!identity) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Malformed uploads are turned away before they count against the rate limit
+    const { image, feeder_id, calibration, captured_at, quality } = await readUploadBody(request)
 
     if (!image) {
       return NextResponse.json(
@@ -30,101 +37,123 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
+    const feeder = await getFeeder(String(feeder_id || DEFAULT_FEEDER_ID))
+    if (!feeder) {
       return NextResponse.json(
-        { error: 'API key not configured' },
-        { status: 500 }
+        { error: 'Unknown feeder' },
+        { status: 404 }
       )
     }
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1000,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/jpeg',
-                  data: image
-                }
-              },
-              {
-                type: 'text',
-                text: `You are analyzing an image from a hummingbird feeder monitoring system called HummiGuard.
-
-Your task: Determine the nectar/sugar water fill level in any visible feeder or container.
+    // Lines relative to the (cropped) image being sent, if the client calibrated it
+    const frameCalibration = calibration === undefined ? null : validateFrameCalibration(calibration)
+    if (calibration !== undefined && !frameCalibration) {
+      return NextResponse.json(
+        { error: 'calibration must have empty_line below full_line, both between 0 and 1' },
+        { status: 400 }
+      )
+    }
 
-IMPORTANT: Respond ONLY with a valid JSON object, no other text. Use this exact format:
-{
-  "level": <number 0-100 representing percentage full>,
-  "confidence": "<high|medium|low>",
-  "description": "<brief 1-sentence description of what you see>",
-  "feeder_visible": <true|false>
-}
+    // Frames queued while offline carry the time they were taken
+    const capturedAt = captured_at === undefined ? new Date() : validateCapturedAt(captured_at)
+    if (!capturedAt) {
+      return NextResponse.json(
+        { error: 'captured_at must be an ISO date within the last 24 hours' },
+        { status: 400 }
+      )
+    }
 
-Guidelines:
-- If you see a hummingbird feeder, estimate how full the nectar reservoir is (0-100%)
-- If you see any container with liquid that could be being monitored, estimate its fill level
-- If no feeder or relevant container is visible, set feeder_visible to false and level to -1
-- Consider the liquid line, empty space above it, and overall container capacity
-- Red or pink tinted liquid/glass is common for hummingbird feeders
+    // Measured on the client before sending; kept with the reading
+    const frameQuality = quality === undefined || quality === null ? null : validateQuality(quality)
+    if (quality !== undefined && quality !== null && !frameQuality) {
+      return NextResponse.json(
+        { error: 'quality must have brightness and contrast from 0 to 255, a non-negative sharpness, and clipped and shift as fractions' },
+        { status: 400 }
+      )
+    }
 
-Respond with ONLY the JSON object.`
-              }
-            ]
-          }
-        ]
-      })
-    })
+    const prepared = await prepareImage(image)
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      console.error('Anthropic API error:', errorData)
+    const limit = await consumeRequest(identity)
+    if (!limit.ok) {
       return NextResponse.json(
-        { error: errorData.error?.message || 'API request failed' },
-        { status: response.status }
+        { error: limit.message, code: limit.code, retry_after: limit.retry_after },
+        { status: 429, headers: { 'Retry-After': String(limit.retry_after) } }
       )
     }
 
-    const data: AnthropicResponse = await response.json()
-
-    // Extract the text response
-    const textContent = data.content?.find((c: AnthropicContent) => c.type === 'text')?.text || ''
+    const budget = await budgetStatus()
+    if (budget.paused && budget.resumes_at) {
+      const retryAfter = Math.ceil((Date.parse(budget.resumes_at) - Date.now()) / 1000)
+      return NextResponse.json(
+        {
+          error: `Monthly budget of $${budget.budget_usd} reached; monitoring is paused until next month`,
+          code: 'budget_exceeded',
+          retry_after: retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
 
-    // Parse JSON from response
+    const meter = meterProvider(getVisionProvider())
+    const started = Date.now()
+    let outcome: UsageOutcome = 'ok'
     let result: AnalysisResult
     try {
-      const jsonMatch = textContent.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0])
-      } else {
-        throw new Error('No JSON found in response')
-      }
-    } catch (parseErr) {
-      console.error('Parse error:', parseErr, 'Response:', textContent)
-      result = {
-        level: -1,
-        confidence: 'low',
-        description: 'Could not parse AI response',
-        feeder_visible: false
-      }
+      result = await analyzeImage(meter.provider, prepared.data, prepared.mediaType, frameCalibration)
+    } catch (err) {
+      outcome = err instanceof AnalysisError ? err.code : 'upstream_error'
+      throw err
+    } finally {
+      await recordUsage({ feederId: feeder.id, identity, meter, latencyMs: Date.now() - started, outcome })
+    }
+
+    const smoothedLevel = await smoothReading(feeder.id, result)
+    const reading = await saveReading(feeder.id, result, smoothedLevel, capturedAt, frameQuality)
+    if (snapshotsEnabled()) {
+      // A failed archive write shouldn't cost us the reading
+      await archiveSnapshot(reading, prepared.original, prepared.mediaType, frameCalibration)
+        .catch(err => console.error('Snapshot archive error:', err))
     }
+    const refill = await detectRefill(reading)
+    const alertActive = await evaluateReading(feeder, reading)
+    const nectarAge = await checkNectarAge(feeder)
+    const forecast = await loadForecast(feeder)
+
+    const response: AnalyzeResponse = {
+      ...reading,
+      alert_active: alertActive,
+      forecast,
+      refill,
+      nectar_age: nectarAge,
+    }
+    // Live viewers are best effort; the reading is already saved
+    publish({ type: 'reading', reading: response })
+    await alertStatus(feeder.id)
+      .then(alert => publish({ type: 'alert', alert }))
+      .catch(err => console.error('Live publish error:', err))
 
-    return NextResponse.json(result)
+    return NextResponse.json(response)
 
   } catch (error) {
+    if (error instanceof ImageError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+    if (error instanceof AnalysisError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+    if (error instanceof VisionProviderError) {
+      return NextResponse.json(
+        { error: error.message, code: 'upstream_error' },
+        { status: error.status }
+      )
+    }
     console.error('Server error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal server error' },
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { labeledDataset } from '@/lib/accuracy'
+
+// Corrected snapshots as JSON Lines, one labeled example per line
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const images = params.get('images') || 'url'
+    if (images !== 'url' && images !== 'inline') {
+      return NextResponse.json(
+        { error: 'images must be "url" or "inline"' },
+        { status: 400 }
+      )
+    }
+
+    const feederId = params.get('feeder') || undefined
+    const examples = await labeledDataset(feederId, images === 'inline')
+    const filename = `hummiguard-dataset-${feederId || 'all'}-${new Date().toISOString().slice(0, 10)}.jsonl`
+
+    return new NextResponse(examples.map(e => JSON.stringify(e)).join('\n') + (examples.length > 0 ? '\n' : ''), {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"`,
+      },
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
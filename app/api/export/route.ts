@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportHistory, historyToCsv } from '@/lib/history'
+import { parseDate } from '@/lib/params'
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const format = params.get('format') || 'json'
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'format must be "json" or "csv"' },
+        { status: 400 }
+      )
+    }
+
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'))
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps' },
+        { status: 400 }
+      )
+    }
+
+    const feederId = params.get('feeder') || undefined
+    const history = await exportHistory({ feederId, from, to })
+    const filename = `hummiguard-${feederId || 'all'}-${history.exported_at.slice(0, 10)}.${format}`
+
+    return new NextResponse(
+      format === 'csv' ? historyToCsv(history) : JSON.stringify(history, null, 2),
+      {
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+          'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"`,
+        },
+      }
+    )
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertStatus, setAlertMuted } from '@/lib/alerts'
+import { getFeeder } from '@/lib/feeders'
+import { publish } from '@/lib/live'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await alertStatus(feeder.id))
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Silence or unsilence the alarm on every device watching this feeder
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { muted } = await request.json()
+    if (typeof muted !== 'boolean') {
+      return NextResponse.json(
+        { error: 'muted must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    const alert = await setAlertMuted(feeder.id, muted)
+    publish({ type: 'alert', alert })
+    return NextResponse.json(alert)
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
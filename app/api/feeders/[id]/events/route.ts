@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EVENT_TYPES, listEvents, recordEvent } from '@/lib/events'
+import { getFeeder } from '@/lib/feeders'
+import { latestReadings } from '@/lib/readings'
+import { resetSmoothing } from '@/lib/smoothing'
+import type { FeederEventType } from '@/lib/types'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ events: await listEvents({ feederId: feeder.id }) })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Log a refill or cleaning done by hand ("I refilled it")
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { type } = await request.json()
+
+    if (!EVENT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of ${EVENT_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    const latest = (await latestReadings())[feeder.id]
+    const event = await recordEvent({
+      feeder_id: feeder.id,
+      type: type as FeederEventType,
+      source: 'manual',
+      level_before: latest?.level ?? null,
+      level_after: null,
+      timestamp: new Date().toISOString(),
+    })
+    // Don't let the pre-refill estimate hold back the first fresh reading
+    if (event.type === 'refill') await resetSmoothing(feeder.id)
+
+    return NextResponse.json(event, { status: 201 })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
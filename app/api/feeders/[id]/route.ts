@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_FEEDER_ID, deleteFeeder, getFeeder, updateFeeder, validateFeederInput } from '@/lib/feeders'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(feeder)
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const validation = validateFeederInput(await request.json(), true)
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const feeder = await updateFeeder((await params).id, validation.value)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(feeder)
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    // Scans without a feeder_id, and the camera agent by default, are filed here
+    if (id === DEFAULT_FEEDER_ID) {
+      return NextResponse.json(
+        { error: 'The default feeder cannot be removed' },
+        { status: 409 }
+      )
+    }
+
+    if (!await deleteFeeder(id)) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getFeeder } from '@/lib/feeders'
+import { scheduleStatus } from '@/lib/schedule'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Whether timed scans and alarms are due right now; ask again at next_change_at
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const feeder = await getFeeder((await params).id)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Feeder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(scheduleStatus(feeder))
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { nectarAge } from '@/lib/alerts'
+import { lastRefill } from '@/lib/events'
+import { createFeeder, listFeeders, validateFeederInput } from '@/lib/feeders'
+import { loadForecast } from '@/lib/forecast'
+import { latestReadings } from '@/lib/readings'
+import type { FeederSummary } from '@/lib/types'
+
+export async function GET() {
+  try {
+    const [feeders, latest] = await Promise.all([listFeeders(), latestReadings()])
+    const summaries: FeederSummary[] = await Promise.all(feeders.map(async f => {
+      const refill = await lastRefill(f.id)
+      return {
+        ...f,
+        latest: latest[f.id] || null,
+        forecast: await loadForecast(f),
+        last_refill: refill,
+        nectar_age: nectarAge(f, refill),
+      }
+    }))
+
+    return NextResponse.json({ feeders: summaries })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const validation = validateFeederInput(await request.json(), false)
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const feeder = await createFeeder(validation.value)
+    return NextResponse.json(feeder, { status: 201 })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
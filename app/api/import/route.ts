@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { historyFromCsv, importHistory, validateHistory } from '@/lib/history'
+
+// Restore a JSON or CSV export; records already present are skipped
+export async function POST(request: NextRequest) {
+  try {
+    const text = await request.text()
+    const isCsv = request.headers.get('content-type')?.startsWith('text/csv')
+
+    let parsed: unknown
+    if (isCsv) {
+      const csv = historyFromCsv(text)
+      if (!csv.ok) {
+        return NextResponse.json(
+          { error: csv.error },
+          { status: 400 }
+        )
+      }
+      parsed = csv.value
+    } else {
+      try {
+        parsed = JSON.parse(text)
+      } catch {
+        return NextResponse.json(
+          { error: 'Body must be a JSON export, or CSV sent as text/csv' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const validation = validateHistory(parsed)
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const imported = await importHistory(validation.value)
+    return NextResponse.json({ imported })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertStatus } from '@/lib/alerts'
+import { DEFAULT_FEEDER_ID, getFeeder } from '@/lib/feeders'
+import { subscribe } from '@/lib/live'
+import { latestReadings } from '@/lib/readings'
+import type { LiveSnapshot } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_MS = 25_000
+
+function message(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Server-Sent Events stream of a feeder's readings and alert state
+export async function GET(request: NextRequest) {
+  try {
+    const feeder = await getFeeder(request.nextUrl.searchParams.get('feeder') || DEFAULT_FEEDER_ID)
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Unknown feeder' },
+        { status: 404 }
+      )
+    }
+
+    const snapshot: LiveSnapshot = {
+      feeder,
+      latest: (await latestReadings())[feeder.id] || null,
+      alert: await alertStatus(feeder.id),
+    }
+
+    const encoder = new TextEncoder()
+    let close = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // The client may be gone before abort or cancel has run; stop sending then
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            close()
+          }
+        }
+
+        send(message('snapshot', snapshot))
+        const unsubscribe = subscribe(event => {
+          if (event.type === 'reading' && event.reading.feeder_id === feeder.id) {
+            send(message('reading', event.reading))
+          } else if (event.type === 'alert' && event.alert.feeder_id === feeder.id) {
+            send(message('alert', event.alert))
+          }
+        })
+        const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_MS)
+
+        close = () => {
+          clearInterval(heartbeat)
+          unsubscribe()
+        }
+        request.signal.addEventListener('abort', () => {
+          close()
+          try {
+            controller.close()
+          } catch {
+            // Already cancelled by the client
+          }
+        })
+      },
+      cancel() {
+        close()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        // Stop nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+      },
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
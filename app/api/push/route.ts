@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+
+// The VAPID public key browsers need to create a push subscription
+export async function GET() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  if (!publicKey || !process.env.VAPID_PRIVATE_KEY) {
+    return NextResponse.json(
+      { error: 'Push notifications not configured' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ publicKey })
+}
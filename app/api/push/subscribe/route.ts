@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPushSubscription, removeSubscription, saveSubscription } from '@/lib/push'
+
+export async function POST(request: NextRequest) {
+  try {
+    const subscription = await request.json()
+
+    if (!isPushSubscription(subscription)) {
+      return NextResponse.json(
+        { error: 'Invalid push subscription' },
+        { status: 400 }
+      )
+    }
+
+    await saveSubscription(subscription)
+    return NextResponse.json({ ok: true }, { status: 201 })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { endpoint } = await request.json()
+
+    if (typeof endpoint !== 'string' || !await removeSubscription(endpoint)) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateCorrection } from '@/lib/accuracy'
+import { ANONYMOUS, identify } from '@/lib/auth'
+import { correctReading, getReading } from '@/lib/readings'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const reading = await getReading((await params).id)
+    if (!reading) {
+      return NextResponse.json(
+        { error: 'Reading not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(reading)
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Record (or with `correction: null`, clear) what the reading should have been
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { correction } = await request.json()
+
+    let value = null
+    if (correction !== null) {
+      const validation = validateCorrection(correction)
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        )
+      }
+      value = {
+        ...validation.value,
+        corrected_by: identify(request) ?? ANONYMOUS,
+        corrected_at: new Date().toISOString(),
+      }
+    }
+
+    const reading = await correctReading((await params).id, value)
+    if (!reading) {
+      return NextResponse.json(
+        { error: 'Reading not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(reading)
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
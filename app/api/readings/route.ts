@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listEvents } from '@/lib/events'
+import { parseDate, parseInteger } from '@/lib/params'
+import { queryReadings } from '@/lib/readings'
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'))
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps' },
+        { status: 400 }
+      )
+    }
+
+    const limit = parseInteger(params.get('limit'))
+    const offset = parseInteger(params.get('offset'))
+    if (limit === null || offset === null) {
+      return NextResponse.json(
+        { error: 'limit and offset must be non-negative integers' },
+        { status: 400 }
+      )
+    }
+
+    const feederId = params.get('feeder') || undefined
+    const page = await queryReadings({ feederId, from, to, limit, offset })
+    const events = await listEvents({ feederId, from, to })
+
+    return NextResponse.json({ ...page, events })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listEvents } from '@/lib/events'
+import { getFeeder } from '@/lib/feeders'
+import { parseDate, parseInteger } from '@/lib/params'
+import { DEFAULT_SERIES_POINTS, levelSeries, MAX_SERIES_POINTS } from '@/lib/series'
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000
+
+// Level history for charting, downsampled to at most `points` points
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const feederId = params.get('feeder')
+    const feeder = feederId ? await getFeeder(feederId) : undefined
+    if (!feeder) {
+      return NextResponse.json(
+        { error: 'Unknown feeder' },
+        { status: 404 }
+      )
+    }
+
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'))
+    const points = parseInteger(params.get('points'))
+    if (from === null || to === null || points === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps and points a non-negative integer' },
+        { status: 400 }
+      )
+    }
+
+    const end = to || new Date()
+    const start = from || new Date(end.getTime() - DEFAULT_RANGE_MS)
+    if (start >= end) {
+      return NextResponse.json(
+        { error: 'from must be before to' },
+        { status: 400 }
+      )
+    }
+
+    const maxPoints = Math.min(Math.max(points ?? DEFAULT_SERIES_POINTS, 10), MAX_SERIES_POINTS)
+    const [series, events] = await Promise.all([
+      levelSeries(feeder.id, start, end, maxPoints),
+      listEvents({ feederId: feeder.id, from: start, to: end }),
+    ])
+
+    return NextResponse.json({
+      from: start.toISOString(),
+      to: end.toISOString(),
+      threshold: feeder.threshold,
+      points: series,
+      events,
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
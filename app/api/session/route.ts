@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthEnabled, SESSION_COOKIE, verifyToken } from '@/lib/auth'
+
+const SESSION_DAYS = 30
+
+// Exchange an access token for a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+
+    if (!isAuthEnabled()) {
+      return NextResponse.json({ name: null })
+    }
+
+    const name = typeof token === 'string' ? verifyToken(token) : null
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Invalid access token' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ name })
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/hummiguard-ai',
+      maxAge: SESSION_DAYS * 24 * 60 * 60,
+    })
+    return response
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete({ name: SESSION_COOKIE, path: '/hummiguard-ai' })
+  return response
+}
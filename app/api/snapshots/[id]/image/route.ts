@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSnapshot, readSnapshotImage } from '@/lib/snapshots'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The archived frame (?size=full) or its thumbnail (default)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const size = request.nextUrl.searchParams.get('size') || 'thumb'
+    if (size !== 'thumb' && size !== 'full') {
+      return NextResponse.json(
+        { error: 'size must be "thumb" or "full"' },
+        { status: 400 }
+      )
+    }
+
+    const snapshot = await getSnapshot((await params).id)
+    const image = snapshot ? await readSnapshotImage(snapshot, size) : null
+    if (!snapshot || !image) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': size === 'thumb' ? 'image/jpeg' : snapshot.media_type,
+        // A reading's frame never changes
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
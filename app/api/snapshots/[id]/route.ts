@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReading } from '@/lib/readings'
+import { getSnapshot } from '@/lib/snapshots'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// A reading and its archived frame (null when none was kept)
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const reading = await getReading(id)
+    if (!reading) {
+      return NextResponse.json(
+        { error: 'Reading not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      reading,
+      snapshot: (await getSnapshot(id)) ?? null,
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
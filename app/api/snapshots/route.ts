@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseDate, parseInteger } from '@/lib/params'
+import { getReadings } from '@/lib/readings'
+import { listSnapshots, snapshotsEnabled } from '@/lib/snapshots'
+
+const DEFAULT_PAGE_SIZE = 48
+const MAX_PAGE_SIZE = 200
+
+// Archived frames, newest first, each with the reading it belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'))
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps' },
+        { status: 400 }
+      )
+    }
+
+    const limit = parseInteger(params.get('limit'))
+    const offset = parseInteger(params.get('offset'))
+    if (limit === null || offset === null) {
+      return NextResponse.json(
+        { error: 'limit and offset must be non-negative integers' },
+        { status: 400 }
+      )
+    }
+
+    const feederId = params.get('feeder') || undefined
+    const page = await listSnapshots({
+      feederId,
+      from,
+      to,
+      limit: Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+      offset,
+    })
+    const readings = await getReadings(page.snapshots.map(s => s.reading_id))
+
+    return NextResponse.json({
+      enabled: snapshotsEnabled(),
+      total: page.total,
+      snapshots: page.snapshots.map(snapshot => ({
+        ...snapshot,
+        reading: readings.get(snapshot.reading_id) ?? null,
+      })),
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
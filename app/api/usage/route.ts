@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseDate, parseSignedInteger } from '@/lib/params'
+import { budgetStatus, listUsage, summarizeUsage } from '@/lib/usage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DEFAULT_DAYS = 30
+
+const MAX_DAYS = 366
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const to = parseDate(params.get('to'))
+    const from = parseDate(params.get('from'))
+    const utcOffset = parseSignedInteger(params.get('utc_offset'))
+    if (from === null || to === null || utcOffset === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps and utc_offset an integer number of minutes' },
+        { status: 400 }
+      )
+    }
+
+    const end = to || new Date()
+    const start = from || new Date(end.getTime() - DEFAULT_DAYS * DAY_MS)
+    if (start > end || end.getTime() - start.getTime() > MAX_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `Range must be positive and span at most ${MAX_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const [days, records, budget] = await Promise.all([
+      summarizeUsage(start, end, utcOffset ?? 0),
+      listUsage(start, end),
+      budgetStatus(),
+    ])
+
+    const calls = records.length
+    const failures = records.filter(r => r.outcome !== 'ok').length
+    const outcomes: Record<string, number> = {}
+    for (const record of records) outcomes[record.outcome] = (outcomes[record.outcome] || 0) + 1
+
+    return NextResponse.json({
+      days,
+      totals: {
+        calls,
+        failures,
+        failure_rate: calls > 0 ? failures / calls : null,
+        input_tokens: records.reduce((sum, r) => sum + r.input_tokens, 0),
+        output_tokens: records.reduce((sum, r) => sum + r.output_tokens, 0),
+        avg_latency_ms: calls > 0 ? Math.round(records.reduce((sum, r) => sum + r.latency_ms, 0) / calls) : null,
+        cost_usd: records.reduce((sum, r) => sum + r.cost_usd, 0),
+        outcomes,
+      },
+      budget,
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
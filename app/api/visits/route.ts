@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseDate, parseSignedInteger } from '@/lib/params'
+import { BUCKET_MS, listVisits, summarizeVisits, VisitBucketSize } from '@/lib/visits'
+
+const DEFAULT_RANGE_MS: Record<VisitBucketSize, number> = {
+  hour: 24 * 60 * 60 * 1000,
+  day: 30 * 24 * 60 * 60 * 1000,
+}
+
+const MAX_BUCKETS = 24 * 92
+
+const RECENT_VISITS = 50
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+
+    const bucket = (params.get('bucket') || 'hour') as VisitBucketSize
+    if (bucket !== 'hour' && bucket !== 'day') {
+      return NextResponse.json(
+        { error: 'bucket must be "hour" or "day"' },
+        { status: 400 }
+      )
+    }
+
+    const to = parseDate(params.get('to'))
+    const from = parseDate(params.get('from'))
+    const utcOffset = parseSignedInteger(params.get('utc_offset'))
+    if (from === null || to === null || utcOffset === null) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO 8601 timestamps and utc_offset an integer number of minutes' },
+        { status: 400 }
+      )
+    }
+
+    const end = to || new Date()
+    const start = from || new Date(end.getTime() - DEFAULT_RANGE_MS[bucket])
+    if (start > end || (end.getTime() - start.getTime()) / BUCKET_MS[bucket] > MAX_BUCKETS) {
+      return NextResponse.json(
+        { error: `Range must be positive and span at most ${MAX_BUCKETS} buckets` },
+        { status: 400 }
+      )
+    }
+
+    const feederId = params.get('feeder') || undefined
+    const [buckets, visits] = await Promise.all([
+      summarizeVisits({ feederId, from: start, to: end, bucket, utcOffset: utcOffset ?? 0 }),
+      listVisits(feederId, start, end),
+    ])
+
+    return NextResponse.json({
+      buckets,
+      total_visits: visits.length,
+      total_birds: visits.reduce((sum, v) => sum + v.count, 0),
+      recent: visits.slice(0, RECENT_VISITS),
+    })
+
+  } catch (error) {
+    console.error('Server error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
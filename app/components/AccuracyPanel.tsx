@@ -0,0 +1,101 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { AccuracyBucket, AccuracyReport, Feeder } from '@/lib/types'
+
+interface AccuracyPanelProps {
+  feeders: Feeder[]
+  // Only this feeder's corrections, or all when empty
+  feederId: string
+  // Bump to reload after a correction
+  refreshKey: number
+}
+
+function formatMae(bucket: AccuracyBucket): string {
+  return bucket.mae !== null ? `±${bucket.mae} pts` : '—'
+}
+
+function formatAgreement(bucket: AccuracyBucket): string {
+  return bucket.visibility_agreement !== null ? `${Math.round(bucket.visibility_agreement * 100)}%` : '—'
+}
+
+// Model accuracy against human corrections, with the labeled dataset downloads
+export default function AccuracyPanel({ feeders, feederId, refreshKey }: AccuracyPanelProps) {
+  const [report, setReport] = useState<AccuracyReport | null>(null)
+
+  useEffect(() => {
+    const params = feederId ? `?feeder=${encodeURIComponent(feederId)}` : ''
+    fetch(`/hummiguard-ai/api/accuracy${params}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(setReport)
+      .catch(err => console.error('Accuracy load error:', err))
+  }, [feederId, refreshKey])
+
+  if (!report) return null
+
+  const rows: [string, AccuracyBucket][] = [
+    ...(['high', 'medium', 'low'] as const)
+      .filter(c => report.by_confidence[c])
+      .map((c): [string, AccuracyBucket] => [`${c} confidence`, report.by_confidence[c] as AccuracyBucket]),
+    ...(feederId ? [] : Object.entries(report.by_feeder).map(([id, bucket]): [string, AccuracyBucket] => [
+      feeders.find(f => f.id === id)?.name ?? id,
+      bucket,
+    ])),
+  ]
+  const datasetParams = feederId ? `&feeder=${encodeURIComponent(feederId)}` : ''
+
+  return (
+    <div className="bg-white/10 backdrop-blur rounded-2xl p-3 mb-3">
+      <h3 className="text-white font-semibold mb-2 text-sm flex items-center justify-between">
+        <span>🎯 Model Accuracy</span>
+        <span className="text-xs font-normal text-gray-400">{report.overall.count} corrected readings</span>
+      </h3>
+
+      {report.overall.count === 0 ? (
+        <div className="text-xs text-gray-400">
+          Open a snapshot and correct its level to start measuring how far off the model is.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <div className="bg-black/20 rounded-lg p-2 text-center">
+              <div className="text-[10px] text-purple-200">Mean absolute error</div>
+              <div className="text-xl font-bold text-white">{formatMae(report.overall)}</div>
+            </div>
+            <div className="bg-black/20 rounded-lg p-2 text-center">
+              <div className="text-[10px] text-purple-200">Visibility agreement</div>
+              <div className="text-xl font-bold text-white">{formatAgreement(report.overall)}</div>
+            </div>
+          </div>
+          <table className="w-full text-xs">
+            <tbody>
+              {rows.map(([label, bucket]) => (
+                <tr key={label} className="border-t border-white/5">
+                  <td className="py-0.5 text-purple-200">{label}</td>
+                  <td className="py-0.5 text-right text-gray-400">{bucket.count}</td>
+                  <td className="py-0.5 text-right text-white">{formatMae(bucket)}</td>
+                  <td className="py-0.5 text-right text-gray-300">{formatAgreement(bucket)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div className="flex gap-2 mt-3 text-xs">
+        <a
+          href={`/hummiguard-ai/api/dataset?images=url${datasetParams}`}
+          className="flex-1 text-center bg-white/10 hover:bg-white/20 text-white py-1.5 rounded-lg transition"
+        >
+          ⬇️ Dataset (labels)
+        </a>
+        <a
+          href={`/hummiguard-ai/api/dataset?images=inline${datasetParams}`}
+          className="flex-1 text-center bg-white/10 hover:bg-white/20 text-white py-1.5 rounded-lg transition"
+        >
+          ⬇️ Dataset (with images)
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { coverTransform, Rect } from '@/lib/calibration'
+import type { FeederCalibration } from '@/lib/types'
+import { Size, useElementSize } from './useElementSize'
+
+type Step = 'box' | 'full' | 'empty' | 'done'
+
+const STEP_HINTS: Record<Step, string> = {
+  box: 'Drag a box around the nectar reservoir',
+  full: 'Tap where the liquid sits when the feeder is FULL',
+  empty: 'Tap where the liquid sits when the feeder is EMPTY',
+  done: 'Looks good? Save the calibration',
+}
+
+interface OutlineProps {
+  roi: Rect
+  fullLine: number | null
+  emptyLine: number | null
+  video: HTMLVideoElement
+  size: Size
+}
+
+// Box and fill lines drawn over the video; all inputs are frame fractions
+function ReservoirOutline({ roi, fullLine, emptyLine, video, size }: OutlineProps) {
+  const transform = coverTransform(size.width, size.height, video.videoWidth, video.videoHeight)
+  const topLeft = transform.toDisplay(roi.x, roi.y)
+  const bottomRight = transform.toDisplay(roi.x + roi.width, roi.y + roi.height)
+  const lineAt = (fy: number) => transform.toDisplay(0, fy).y - topLeft.y
+
+  return (
+    <div
+      className="absolute border-2 border-cyan-300 rounded pointer-events-none"
+      style={{
+        left: topLeft.x,
+        top: topLeft.y,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y,
+      }}
+    >
+      {fullLine !== null && (
+        <div className="absolute left-0 right-0 border-t-2 border-emerald-400" style={{ top: lineAt(fullLine) }}>
+          <span className="absolute -top-4 left-1 text-[10px] font-bold text-emerald-300">FULL</span>
+        </div>
+      )}
+      {emptyLine !== null && (
+        <div className="absolute left-0 right-0 border-t-2 border-red-400" style={{ top: lineAt(emptyLine) }}>
+          <span className="absolute -top-4 left-1 text-[10px] font-bold text-red-300">EMPTY</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SavedOutlineProps {
+  video: HTMLVideoElement | null
+  calibration: FeederCalibration
+}
+
+// Faint outline of a saved calibration while monitoring
+export function CalibrationOutline({ video, calibration }: SavedOutlineProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const size = useElementSize(containerRef)
+  const { roi } = calibration
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none opacity-50">
+      {video && size && video.videoWidth > 0 && (
+        <ReservoirOutline
+          roi={roi}
+          fullLine={roi.y + calibration.full_line * roi.height}
+          emptyLine={roi.y + calibration.empty_line * roi.height}
+          video={video}
+          size={size}
+        />
+      )}
+    </div>
+  )
+}
+
+interface CalibrationOverlayProps {
+  video: HTMLVideoElement | null
+  onSave: (calibration: FeederCalibration | null) => void
+  onCancel: () => void
+}
+
+/**
+ * Interactive calibration over the live video: drag a box around the
+ * reservoir, then tap the full and empty liquid lines.
+ */
+export default function CalibrationOverlay({ video, onSave, onCancel }: CalibrationOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const size = useElementSize(containerRef)
+
+  const [step, setStep] = useState<Step>('box')
+  const [dragStart, setDragStart] = useState<{ x: number, y: number } | null>(null)
+  const [roi, setRoi] = useState<Rect | null>(null)
+  const [fullLine, setFullLine] = useState<number | null>(null)
+  const [emptyLine, setEmptyLine] = useState<number | null>(null)
+
+  const toFrame = (e: React.PointerEvent): { x: number, y: number } | null => {
+    if (!video || !size || !containerRef.current) return null
+    const bounds = containerRef.current.getBoundingClientRect()
+    return coverTransform(size.width, size.height, video.videoWidth, video.videoHeight)
+      .toVideo(e.clientX - bounds.left, e.clientY - bounds.top)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const point = toFrame(e)
+    if (!point) return
+
+    if (step === 'box') {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDragStart(point)
+      setRoi({ x: point.x, y: point.y, width: 0, height: 0 })
+      return
+    }
+
+    if (!roi) return
+    const y = Math.min(Math.max(point.y, roi.y), roi.y + roi.height)
+    if (step === 'full') {
+      setFullLine(y)
+      setStep('empty')
+    } else if (step === 'empty' && fullLine !== null && y > fullLine) {
+      setEmptyLine(y)
+      setStep('done')
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (step !== 'box' || !dragStart) return
+    const point = toFrame(e)
+    if (!point) return
+    setRoi({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    })
+  }
+
+  const handlePointerUp = () => {
+    if (step !== 'box' || !dragStart) return
+    setDragStart(null)
+    if (roi && roi.width >= 0.05 && roi.height >= 0.05) {
+      setStep('full')
+    } else {
+      setRoi(null)
+    }
+  }
+
+  const restart = () => {
+    setStep('box')
+    setRoi(null)
+    setFullLine(null)
+    setEmptyLine(null)
+  }
+
+  const save = () => {
+    if (!roi || fullLine === null || emptyLine === null) return
+    onSave({
+      roi,
+      full_line: (fullLine - roi.y) / roi.height,
+      empty_line: (emptyLine - roi.y) / roi.height,
+    })
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 cursor-crosshair touch-none select-none bg-black/20"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {video && size && roi && video.videoWidth > 0 && (
+        <ReservoirOutline roi={roi} fullLine={fullLine} emptyLine={emptyLine} video={video} size={size} />
+      )}
+
+      <div className="absolute top-2 left-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded-lg text-center">
+        📐 {STEP_HINTS[step]}
+      </div>
+
+      <div
+        className="absolute bottom-2 left-2 right-2 flex gap-2 justify-center"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button onClick={onCancel} className="bg-black/70 hover:bg-black/80 text-white text-xs px-3 py-1.5 rounded-lg">
+          Cancel
+        </button>
+        <button onClick={() => onSave(null)} className="bg-black/70 hover:bg-black/80 text-white text-xs px-3 py-1.5 rounded-lg">
+          Clear
+        </button>
+        <button onClick={restart} className="bg-black/70 hover:bg-black/80 text-white text-xs px-3 py-1.5 rounded-lg">
+          Redo
+        </button>
+        <button
+          onClick={save}
+          disabled={step !== 'done'}
+          className="bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white text-xs font-bold px-3 py-1.5 rounded-lg"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
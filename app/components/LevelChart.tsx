@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import type { FeederEvent, SeriesPoint } from '@/lib/types'
+import { useElementSize } from './useElementSize'
+
+interface LevelChartProps {
+  points: SeriesPoint[]
+  events: FeederEvent[]
+  threshold: number
+  from: number
+  to: number
+  // Called with the selected time range after a drag across the chart
+  onZoom: (from: number, to: number) => void
+  // Called with the nearest point when the chart is clicked
+  onSelect?: (point: SeriesPoint) => void
+}
+
+const HEIGHT = 260
+const PADDING = { top: 12, right: 12, bottom: 24, left: 34 }
+const LEVEL_TICKS = [0, 25, 50, 75, 100]
+const TIME_TICKS = 6
+const MIN_ZOOM_PX = 12
+
+const HOUR_MS = 60 * 60 * 1000
+
+function formatTick(t: number, span: number): string {
+  const date = new Date(t)
+  if (span <= 36 * HOUR_MS) return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Level over time: raw readings as dots (hollow when low confidence), the
+ * smoothed level as a line, the alert threshold and refill/cleaning markers.
+ * Drag across the chart to zoom into a range, or click to pick a reading.
+ */
+export default function LevelChart({ points, events, threshold, from, to, onZoom, onSelect }: LevelChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const size = useElementSize(containerRef)
+  const [hover, setHover] = useState<SeriesPoint | null>(null)
+  const [selection, setSelection] = useState<{ start: number, end: number } | null>(null)
+
+  const width = size?.width ?? 0
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1)
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const span = Math.max(to - from, 1)
+
+  const x = (t: number) => PADDING.left + (t - from) / span * plotWidth
+  const y = (level: number) => PADDING.top + (1 - level / 100) * plotHeight
+  const timeAt = (px: number) => from + (Math.min(Math.max(px, PADDING.left), PADDING.left + plotWidth) - PADDING.left) / plotWidth * span
+
+  const smoothedPath = points
+    .filter(p => p.smoothed_level !== null)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(Date.parse(p.timestamp)).toFixed(1)},${y(p.smoothed_level as number).toFixed(1)}`)
+    .join(' ')
+
+  const localX = (e: React.PointerEvent) => e.clientX - e.currentTarget.getBoundingClientRect().left
+
+  const nearestPoint = (px: number): SeriesPoint | null => {
+    const t = timeAt(px)
+    let nearest: SeriesPoint | null = null
+    for (const point of points) {
+      if (!nearest || Math.abs(Date.parse(point.timestamp) - t) < Math.abs(Date.parse(nearest.timestamp) - t)) {
+        nearest = point
+      }
+    }
+    return nearest
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const px = localX(e)
+    setSelection({ start: px, end: px })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const px = localX(e)
+    if (selection) {
+      setSelection({ ...selection, end: px })
+      return
+    }
+    setHover(nearestPoint(px))
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (selection && Math.abs(selection.end - selection.start) >= MIN_ZOOM_PX) {
+      const a = timeAt(selection.start)
+      const b = timeAt(selection.end)
+      onZoom(Math.min(a, b), Math.max(a, b))
+    } else if (selection && onSelect) {
+      const point = nearestPoint(localX(e))
+      if (point) onSelect(point)
+    }
+    setSelection(null)
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full select-none" style={{ height: HEIGHT }}>
+      {width > 0 && (
+        <svg
+          width={width}
+          height={HEIGHT}
+          className="touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => setHover(null)}
+        >
+          {/* Grid */}
+          {LEVEL_TICKS.map(level => (
+            <g key={level}>
+              <line x1={PADDING.left} x2={PADDING.left + plotWidth} y1={y(level)} y2={y(level)} stroke="rgba(255,255,255,0.08)" />
+              <text x={PADDING.left - 6} y={y(level) + 3} textAnchor="end" fontSize={10} fill="#9ca3af">{level}%</text>
+            </g>
+          ))}
+          {Array.from({ length: TIME_TICKS + 1 }, (_, i) => from + span * i / TIME_TICKS).map((t, i) => (
+            <text
+              key={i}
+              x={x(t)}
+              y={HEIGHT - 6}
+              textAnchor={i === 0 ? 'start' : i === TIME_TICKS ? 'end' : 'middle'}
+              fontSize={10}
+              fill="#9ca3af"
+            >
+              {formatTick(t, span)}
+            </text>
+          ))}
+
+          {/* Threshold */}
+          <line
+            x1={PADDING.left}
+            x2={PADDING.left + plotWidth}
+            y1={y(threshold)}
+            y2={y(threshold)}
+            stroke="#facc15"
+            strokeDasharray="6 4"
+            strokeWidth={1.5}
+          />
+
+          {/* Refill and cleaning markers */}
+          {events.map(event => {
+            const ex = x(Date.parse(event.timestamp))
+            const color = event.type === 'refill' ? '#34d399' : '#60a5fa'
+            return (
+              <g key={event.id}>
+                <line x1={ex} x2={ex} y1={PADDING.top} y2={PADDING.top + plotHeight} stroke={color} strokeDasharray="2 3" />
+                <text x={ex + 3} y={PADDING.top + 10} fontSize={10} fill={color}>
+                  {event.type === 'refill' ? '↑ refill' : '✦ cleaned'}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* Spread of downsampled points */}
+          {points.filter(p => p.count > 1 && p.max > p.min).map(p => (
+            <line
+              key={`range-${p.timestamp}`}
+              x1={x(Date.parse(p.timestamp))}
+              x2={x(Date.parse(p.timestamp))}
+              y1={y(p.max)}
+              y2={y(p.min)}
+              stroke="rgba(244,114,182,0.25)"
+              strokeWidth={3}
+            />
+          ))}
+
+          {/* Smoothed level */}
+          {smoothedPath && <path d={smoothedPath} fill="none" stroke="#f472b6" strokeWidth={2} />}
+
+          {/* Raw readings */}
+          {points.map(p => (
+            <circle
+              key={p.timestamp}
+              cx={x(Date.parse(p.timestamp))}
+              cy={y(p.level)}
+              r={p.confidence === 'low' ? 3 : 2.5}
+              fill={p.confidence === 'low' ? 'none' : p.level < threshold ? '#f87171' : '#fda4af'}
+              stroke={p.confidence === 'low' ? '#9ca3af' : 'none'}
+              strokeWidth={1.2}
+              opacity={p.confidence === 'medium' ? 0.7 : 1}
+            />
+          ))}
+
+          {/* Hover marker */}
+          {hover && !selection && (
+            <line
+              x1={x(Date.parse(hover.timestamp))}
+              x2={x(Date.parse(hover.timestamp))}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke="rgba(255,255,255,0.4)"
+            />
+          )}
+
+          {/* Zoom selection */}
+          {selection && (
+            <rect
+              x={Math.min(selection.start, selection.end)}
+              y={PADDING.top}
+              width={Math.abs(selection.end - selection.start)}
+              height={plotHeight}
+              fill="rgba(168,85,247,0.25)"
+              stroke="#a855f7"
+            />
+          )}
+        </svg>
+      )}
+
+      {hover && !selection && (
+        <div className="absolute top-2 right-3 bg-black/70 text-white text-xs px-2 py-1 rounded-lg pointer-events-none">
+          <div>{new Date(hover.timestamp).toLocaleString()}</div>
+          <div>
+            {hover.count > 1 ? `avg ${hover.level}% (${hover.min}–${hover.max}%, ${hover.count} readings)` : `${hover.level}%`}
+            {hover.smoothed_level !== null && ` · smoothed ${hover.smoothed_level}%`}
+          </div>
+          <div className="text-gray-400">{hover.confidence} confidence</div>
+        </div>
+      )}
+
+      {points.length === 0 && width > 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-xs pointer-events-none">
+          No readings in this range
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Feeder, FeederSchedule, ScheduleMode, ScheduleStatus } from '@/lib/types'
+
+interface SchedulePanelProps {
+  feeder: Feeder | null
+  status: ScheduleStatus | null
+  onSaved: (feeder: Feeder) => void
+}
+
+const MODE_LABELS: Record<ScheduleMode, string> = {
+  always: '24h',
+  hours: 'Hours',
+  daylight: '☀️ Daylight',
+}
+
+const DEFAULT_HOURS = { start: '06:00', end: '21:00' }
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' }
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+// When the feeder is scanned, and when alarms stay quiet
+export default function SchedulePanel({ feeder, status, onSaved }: SchedulePanelProps) {
+  const [mode, setMode] = useState<ScheduleMode>('always')
+  const [hours, setHours] = useState(DEFAULT_HOURS)
+  const [quietEnabled, setQuietEnabled] = useState(false)
+  const [quietHours, setQuietHours] = useState(DEFAULT_QUIET_HOURS)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from the stored schedule whenever the feeder changes
+  useEffect(() => {
+    const schedule = feeder?.schedule
+    setMode(schedule?.mode ?? 'always')
+    setHours(schedule?.hours ?? DEFAULT_HOURS)
+    setQuietEnabled(!!schedule?.quiet_hours)
+    setQuietHours(schedule?.quiet_hours ?? DEFAULT_QUIET_HOURS)
+    setError(null)
+  }, [feeder?.id, feeder?.schedule])
+
+  if (!feeder) return null
+
+  const save = async () => {
+    const schedule: FeederSchedule = {
+      mode,
+      ...(mode === 'hours' ? { hours } : {}),
+      ...(mode === 'daylight' ? { daylight_margin_minutes: feeder.schedule?.daylight_margin_minutes } : {}),
+      quiet_hours: quietEnabled ? quietHours : null,
+    }
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/hummiguard-ai/api/feeders/${feeder.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ schedule: mode === 'always' && !quietEnabled ? null : schedule })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save schedule')
+      }
+      setError(null)
+      onSaved(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const timeInput = (value: string, onChange: (value: string) => void) => (
+    <input
+      type="time"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-black/40 text-white rounded px-1 py-0.5"
+    />
+  )
+
+  return (
+    <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+      <h3 className="text-white font-semibold mb-2 text-sm flex items-center justify-between">
+        <span>🌙 Schedule</span>
+        {status && (
+          <span className={`text-xs font-normal ${status.active ? 'text-green-400' : 'text-gray-400'}`}>
+            {status.active ? 'Scanning' : status.resumes_at ? `Paused until ${formatTime(status.resumes_at)}` : 'Paused'}
+          </span>
+        )}
+      </h3>
+
+      <div className="space-y-2 text-xs">
+        <div className="flex gap-1">
+          {(['always', 'hours', 'daylight'] as ScheduleMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 px-2 py-1 rounded transition ${
+                mode === m
+                  ? 'bg-purple-500 text-white'
+                  : 'bg-white/10 text-gray-300 hover:bg-white/20'
+              }`}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'hours' && (
+          <div className="flex items-center justify-between text-purple-200">
+            Scan from
+            <span className="flex items-center gap-1">
+              {timeInput(hours.start, start => setHours({ ...hours, start }))}
+              to
+              {timeInput(hours.end, end => setHours({ ...hours, end }))}
+            </span>
+          </div>
+        )}
+
+        {mode === 'daylight' && (
+          <div className="text-gray-400">
+            {status?.sunrise && status.sunset
+              ? `Sunrise ${formatTime(status.sunrise)} · sunset ${formatTime(status.sunset)}`
+              : 'Scans from shortly before sunrise until after sunset'}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-purple-200">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={quietEnabled}
+              onChange={(e) => setQuietEnabled(e.target.checked)}
+              className="accent-purple-500"
+            />
+            Quiet hours
+          </label>
+          {quietEnabled && (
+            <span className="flex items-center gap-1">
+              {timeInput(quietHours.start, start => setQuietHours({ ...quietHours, start }))}
+              to
+              {timeInput(quietHours.end, end => setQuietHours({ ...quietHours, end }))}
+            </span>
+          )}
+        </div>
+        {quietEnabled && (
+          <div className="text-gray-400">Readings continue; the alarm and notifications wait until quiet hours end</div>
+        )}
+
+        {error && <div className="text-red-300">{error}</div>}
+
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="w-full bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white font-semibold py-1.5 rounded-lg transition"
+        >
+          Save schedule
+        </button>
+      </div>
+    </div>
+  )
+}
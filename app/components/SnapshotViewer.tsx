@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { QUALITY_LIMITS } from '@/lib/quality'
+import type { Reading, Snapshot } from '@/lib/types'
+
+interface SnapshotViewerProps {
+  readingId: string
+  onClose: () => void
+  onCorrected?: () => void
+}
+
+// Modal with a reading's archived frame and what the model said about it
+export default function SnapshotViewer({ readingId, onClose, onCorrected }: SnapshotViewerProps) {
+  const [data, setData] = useState<{ reading: Reading, snapshot: Snapshot | null } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState({ feeder_visible: true, level: 50, note: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setData(null)
+    fetch(`/hummiguard-ai/api/snapshots/${encodeURIComponent(readingId)}`)
+      .then(async res => {
+        const body = await res.json()
+        if (!res.ok) throw new Error(body.error || 'Failed to load reading')
+        setData(body)
+        setError(null)
+        // Start from the existing correction, or from what the model said
+        const source = body.reading.correction ?? body.reading
+        setForm({
+          feeder_visible: source.feeder_visible,
+          level: source.level >= 0 ? source.level : 50,
+          note: body.reading.correction?.note ?? '',
+        })
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+  }, [readingId])
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onClose])
+
+  const saveCorrection = async (correction: typeof form | null) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/hummiguard-ai/api/readings/${encodeURIComponent(readingId)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ correction })
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to save correction')
+      }
+      setData(prev => prev && { ...prev, reading: body })
+      setError(null)
+      onCorrected?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const reading = data?.reading
+  const correction = reading?.correction
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-3" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-white/10 rounded-2xl p-3 w-full max-w-2xl max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-white font-semibold text-sm">
+            {reading ? new Date(reading.timestamp).toLocaleString() : 'Reading'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕</button>
+        </div>
+
+        {error && <div className="text-red-300 text-sm">{error}</div>}
+
+        {data && (data.snapshot ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={`/hummiguard-ai/api/snapshots/${encodeURIComponent(readingId)}/image?size=full`}
+            alt="Archived frame"
+            className="w-full rounded-xl bg-black"
+          />
+        ) : (
+          <div className="aspect-video rounded-xl bg-black/40 flex items-center justify-center text-gray-500 text-xs">
+            No frame archived for this reading
+          </div>
+        ))}
+
+        {reading && (
+          <div className="mt-3 space-y-1 text-xs">
+            <div className="flex justify-between">
+              <span className="text-purple-200">Model level</span>
+              <span className="text-white">
+                {reading.feeder_visible && reading.level >= 0 ? `${reading.level}%` : 'Feeder not visible'}
+                {reading.smoothed_level !== null && reading.smoothed_level !== reading.level && (
+                  <span className="text-gray-400"> (smoothed {reading.smoothed_level}%)</span>
+                )}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-purple-200">Confidence</span>
+              <span className="text-white">{reading.confidence}</span>
+            </div>
+            {reading.birds?.count > 0 && (
+              <div className="flex justify-between">
+                <span className="text-purple-200">Birds</span>
+                <span className="text-white">
+                  {reading.birds.count}{reading.birds.species ? ` · ${reading.birds.species}` : ''}
+                </span>
+              </div>
+            )}
+            {reading.quality && (
+              <div className="flex justify-between" title="Measured on the device before the frame was sent">
+                <span className="text-purple-200">Frame</span>
+                <span className="text-white">
+                  brightness {Math.round(reading.quality.brightness)} · contrast {Math.round(reading.quality.contrast)} · sharpness {reading.quality.sharpness.toFixed(2)}
+                  {reading.quality.shift !== null && (
+                    <span className={reading.quality.shift > QUALITY_LIMITS.maxShift ? 'text-amber-300' : ''}>
+                      {' '}· moved {(reading.quality.shift * 100).toFixed(1)}%
+                    </span>
+                  )}
+                </span>
+              </div>
+            )}
+            <p className="text-gray-300 bg-black/20 rounded-lg p-2 mt-2">{reading.description}</p>
+
+            {/* Correction */}
+            <div className="bg-black/20 rounded-lg p-2 mt-2">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-white font-semibold">✏️ Correct this reading</span>
+                {correction && (
+                  <span className="text-emerald-300">
+                    You: {correction.feeder_visible ? `${correction.level}%` : 'not visible'}
+                    <span className="text-gray-500"> · {correction.corrected_by}</span>
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-1 text-purple-200">
+                  <input
+                    type="checkbox"
+                    checked={form.feeder_visible}
+                    onChange={(e) => setForm({ ...form, feeder_visible: e.target.checked })}
+                  />
+                  Feeder visible
+                </label>
+                <label className={`flex items-center gap-2 flex-1 min-w-[10rem] text-purple-200 ${form.feeder_visible ? '' : 'opacity-40'}`}>
+                  Level
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    disabled={!form.feeder_visible}
+                    value={form.level}
+                    onChange={(e) => setForm({ ...form, level: Number(e.target.value) })}
+                    className="flex-1 accent-pink-500"
+                  />
+                  <span className="text-white w-9 text-right">{form.level}%</span>
+                </label>
+              </div>
+              <input
+                value={form.note}
+                maxLength={500}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="Note (optional)"
+                className="mt-2 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => saveCorrection(form)}
+                  disabled={isSaving}
+                  className="flex-1 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white font-bold py-1.5 rounded-lg transition"
+                >
+                  {correction ? 'Update correction' : 'Save correction'}
+                </button>
+                {correction && (
+                  <button
+                    onClick={() => saveCorrection(null)}
+                    disabled={isSaving}
+                    className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg transition"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Visit, VisitBucket } from '@/lib/types'
+
+interface VisitSummary {
+  buckets: VisitBucket[]
+  total_visits: number
+  total_birds: number
+  recent: Visit[]
+}
+
+interface VisitorsPanelProps {
+  feederId: string | null
+  // Bump to reload after a new reading comes in
+  refreshKey: number
+}
+
+// Hummingbird activity for the last 24 hours, one bar per hour
+export default function VisitorsPanel({ feederId, refreshKey }: VisitorsPanelProps) {
+  const [summary, setSummary] = useState<VisitSummary | null>(null)
+
+  useEffect(() => {
+    if (!feederId) return
+
+    const params = new URLSearchParams({
+      feeder: feederId,
+      bucket: 'hour',
+      utc_offset: String(-new Date().getTimezoneOffset()),
+    })
+    fetch(`/hummiguard-ai/api/visits?${params}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(setSummary)
+      .catch(err => console.error('Visit load error:', err))
+  }, [feederId, refreshKey])
+
+  if (!summary || summary.buckets.every(b => b.scans === 0)) return null
+
+  const peak = Math.max(...summary.buckets.map(b => b.birds), 1)
+  const species = new Map<string, number>()
+  for (const bucket of summary.buckets) {
+    for (const [name, count] of Object.entries(bucket.species)) {
+      species.set(name, (species.get(name) || 0) + count)
+    }
+  }
+  const topSpecies = Array.from(species.entries()).sort((a, b) => b[1] - a[1]).slice(0, 3)
+
+  return (
+    <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+      <h3 className="text-white font-semibold mb-2 text-sm flex items-center justify-between">
+        <span>🐦 Visitors (24h)</span>
+        <span className="text-xs text-pink-300">{summary.total_birds} sightings</span>
+      </h3>
+
+      {/* Hourly activity */}
+      <div className="flex items-end gap-px h-12 bg-black/20 rounded px-1 pt-1">
+        {summary.buckets.map(bucket => (
+          <div
+            key={bucket.start}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${new Date(bucket.start).toLocaleTimeString([], { hour: 'numeric' })}: ${bucket.birds} birds in ${bucket.scans} scans`}
+          >
+            <div
+              className={bucket.scans === 0 ? 'bg-gray-700' : 'bg-gradient-to-t from-emerald-600 to-emerald-300 rounded-t-sm'}
+              style={{ height: bucket.scans === 0 ? '1px' : `${Math.max(bucket.birds / peak * 100, 4)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+        <span>24h ago</span>
+        <span>now</span>
+      </div>
+
+      {topSpecies.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {topSpecies.map(([name, count]) => (
+            <div key={name} className="flex justify-between text-xs">
+              <span className="text-purple-200 truncate">{name}</span>
+              <span className="text-gray-400">{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.recent.length > 0 && (
+        <div className="text-xs text-gray-400 mt-2">
+          Last visit {new Date(summary.recent[0].timestamp).toLocaleTimeString()}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useRef, useEffect } from 'react'
+
+// Extend Window interface for webkit audio context
+declare global {
+  interface Window {
+    webkitAudioContext: typeof AudioContext
+  }
+}
+
+const BEEP_INTERVAL_MS = 2000
+
+// Beep every couple of seconds while `playing` is true
+export function useAlertSound(playing: boolean) {
+  const audioContextRef = useRef<AudioContext | null>(null)
+
+  const audioContext = () => {
+    if (!audioContextRef.current) {
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext
+      audioContextRef.current = new AudioContextClass()
+    }
+    const ctx = audioContextRef.current
+    if (ctx.state === 'suspended') ctx.resume()
+    return ctx
+  }
+
+  // Browsers only allow sound after a user gesture, so unlock it on the first
+  // tap; a monitor may not be touched again before the alarm goes off
+  useEffect(() => {
+    const unlock = () => {
+      try {
+        audioContext()
+      } catch (e) {
+        console.log('Audio not available')
+      }
+    }
+    window.addEventListener('pointerdown', unlock, { once: true })
+    return () => window.removeEventListener('pointerdown', unlock)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (!playing) return
+
+    const beep = () => {
+      try {
+        const ctx = audioContext()
+
+        const oscillator = ctx.createOscillator()
+        const gainNode = ctx.createGain()
+
+        oscillator.connect(gainNode)
+        gainNode.connect(ctx.destination)
+
+        oscillator.frequency.setValueAtTime(1200, ctx.currentTime)
+        oscillator.frequency.exponentialRampToValueAtTime(800, ctx.currentTime + 0.1)
+        oscillator.type = 'sine'
+        gainNode.gain.setValueAtTime(0.3, ctx.currentTime)
+        gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.2)
+
+        oscillator.start()
+        oscillator.stop(ctx.currentTime + 0.2)
+      } catch (e) {
+        console.log('Audio not available')
+      }
+    }
+
+    const interval = setInterval(beep, BEEP_INTERVAL_MS)
+    beep()
+    return () => clearInterval(interval)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing])
+}
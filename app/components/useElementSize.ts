@@ -0,0 +1,24 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+export interface Size {
+  width: number
+  height: number
+}
+
+// Track the rendered size of an element
+export function useElementSize(ref: React.RefObject<HTMLElement | null>): Size | null {
+  const [size, setSize] = useState<Size | null>(null)
+
+  useEffect(() => {
+    if (!ref.current) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(ref.current)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return size
+}
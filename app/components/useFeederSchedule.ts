@@ -0,0 +1,47 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { ScheduleStatus } from '@/lib/types'
+
+// Ask again at least this often, in case the device slept through a change
+const MAX_RECHECK_MS = 60 * 60 * 1000
+const RETRY_MS = 60 * 1000
+
+// A feeder's schedule state, refreshed whenever it is due to change. Pass a
+// new refreshKey after editing the schedule
+export function useFeederSchedule(feederId: string | null, refreshKey?: unknown): ScheduleStatus | null {
+  const [status, setStatus] = useState<ScheduleStatus | null>(null)
+
+  useEffect(() => {
+    if (!feederId) return
+
+    let timer: ReturnType<typeof setTimeout>
+    let cancelled = false
+
+    const load = async () => {
+      let wait = RETRY_MS
+      try {
+        const response = await fetch(`/hummiguard-ai/api/feeders/${encodeURIComponent(feederId)}/schedule`)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const next: ScheduleStatus = await response.json()
+        if (cancelled) return
+        setStatus(next)
+        wait = next.next_change_at
+          ? Math.min(Math.max(Date.parse(next.next_change_at) - Date.now() + 1000, 1000), MAX_RECHECK_MS)
+          : MAX_RECHECK_MS
+      } catch (err) {
+        console.error('Schedule load error:', err)
+      }
+      if (!cancelled) timer = setTimeout(load, wait)
+    }
+
+    setStatus(null)
+    load()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [feederId, refreshKey])
+
+  return status
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { AlertStatus, AnalyzeResponse, LiveSnapshot } from '@/lib/types'
+
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting'
+
+export interface LiveHandlers {
+  onSnapshot?: (snapshot: LiveSnapshot) => void
+  onReading?: (reading: AnalyzeResponse) => void
+  onAlert?: (alert: AlertStatus) => void
+}
+
+// Follow a feeder's live stream; the browser reconnects on its own and each
+// reconnect starts with a fresh snapshot
+export function useLiveFeed(feederId: string | null, handlers: LiveHandlers): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>('connecting')
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!feederId) return
+
+    setStatus('connecting')
+    const source = new EventSource(`/hummiguard-ai/api/live?feeder=${encodeURIComponent(feederId)}`)
+    const on = <T,>(event: string, handle: (data: T) => void) => {
+      source.addEventListener(event, (e) => handle(JSON.parse((e as MessageEvent<string>).data)))
+    }
+
+    source.onopen = () => setStatus('live')
+    source.onerror = () => setStatus('reconnecting')
+    on<LiveSnapshot>('snapshot', snapshot => handlersRef.current.onSnapshot?.(snapshot))
+    on<AnalyzeResponse>('reading', reading => handlersRef.current.onReading?.(reading))
+    on<AlertStatus>('alert', alert => handlersRef.current.onAlert?.(alert))
+
+    return () => source.close()
+  }, [feederId])
+
+  return status
+}
@@ -0,0 +1,357 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { describeForecast } from '@/lib/format'
+import { QUALITY_LIMITS } from '@/lib/quality'
+import type { FeederSummary } from '@/lib/types'
+
+const REFRESH_SECONDS = 30
+
+const EMPTY_FORM = { name: '', capacity_ml: 300, threshold: 25, location: '' }
+
+export default function FeederDashboard() {
+  const [feeders, setFeeders] = useState<FeederSummary[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [exportRange, setExportRange] = useState({ feeder: '', from: '', to: '' })
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+
+  const loadFeeders = useCallback(async () => {
+    try {
+      const response = await fetch('/hummiguard-ai/api/feeders')
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to load feeders')
+      }
+      const { feeders }: { feeders: FeederSummary[] } = await response.json()
+      setFeeders(feeders)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }, [])
+
+  // Poll so readings from other devices show up
+  useEffect(() => {
+    loadFeeders()
+    const interval = setInterval(loadFeeders, REFRESH_SECONDS * 1000)
+    return () => clearInterval(interval)
+  }, [loadFeeders])
+
+  const addFeeder = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/hummiguard-ai/api/feeders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form)
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to add feeder')
+      }
+      setForm(EMPTY_FORM)
+      await loadFeeders()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeFeeder = async (feeder: FeederSummary) => {
+    if (!confirm(`Remove "${feeder.name}"? Its stored readings are kept.`)) return
+
+    try {
+      const response = await fetch(`/hummiguard-ai/api/feeders/${feeder.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to remove feeder')
+      }
+      await loadFeeders()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  // Dates are local calendar days; the range covers both ends in full
+  const exportUrl = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams({ format })
+    if (exportRange.feeder) params.set('feeder', exportRange.feeder)
+    if (exportRange.from) params.set('from', new Date(`${exportRange.from}T00:00:00`).toISOString())
+    if (exportRange.to) params.set('to', new Date(`${exportRange.to}T23:59:59.999`).toISOString())
+    return `/hummiguard-ai/api/export?${params}`
+  }
+
+  const importHistory = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const response = await fetch('/hummiguard-ai/api/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.name.toLowerCase().endsWith('.csv') ? 'text/csv' : 'application/json',
+        },
+        body: await file.text()
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed')
+      }
+      const { feeders, readings, events, alerts } = data.imported
+      setImportMessage(`Imported ${readings} readings, ${events} events, ${alerts} alerts and ${feeders} feeders`)
+      setError(null)
+      await loadFeeders()
+    } catch (err) {
+      setImportMessage(null)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+            <span className="text-3xl">🐦</span>
+            All Feeders
+          </h1>
+          <div className="flex justify-center gap-4">
+            <Link href="/" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              ← Back to camera
+            </Link>
+            <Link href="/usage" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              Usage &amp; cost →
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Feeder Cards */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {feeders.map(feeder => {
+            const level = feeder.latest ? feeder.latest.smoothed_level ?? feeder.latest.level : null
+            const low = level !== null && level < feeder.threshold
+
+            return (
+              <div key={feeder.id} className="bg-white/10 backdrop-blur rounded-2xl p-3 flex flex-col">
+                <div className="flex items-start justify-between gap-1">
+                  <div className="min-w-0">
+                    <h3 className="text-white font-semibold text-sm truncate">{feeder.name}</h3>
+                    {feeder.location && (
+                      <div className="text-xs text-gray-400 truncate">{feeder.location}</div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => removeFeeder(feeder)}
+                    className="text-gray-500 hover:text-red-400 text-xs"
+                    title="Remove feeder"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className={`relative h-28 mt-2 bg-gray-800 rounded-xl overflow-hidden border-4 ${
+                  low ? 'border-red-500' : 'border-gray-600'
+                }`}>
+                  {level !== null ? (
+                    <>
+                      <div
+                        className={`absolute bottom-0 left-0 right-0 transition-all duration-1000 ${
+                          low
+                            ? 'bg-gradient-to-t from-red-600 to-orange-400'
+                            : 'bg-gradient-to-t from-pink-600 to-rose-400'
+                        }`}
+                        style={{ height: `${level}%` }}
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <span className="text-3xl font-bold text-white drop-shadow-lg">{level}%</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-xs">
+                      No readings yet
+                    </div>
+                  )}
+                  <div
+                    className="absolute left-0 right-0 border-t-2 border-dashed border-yellow-400"
+                    style={{ bottom: `${feeder.threshold}%` }}
+                  />
+                </div>
+
+                <div className="mt-2 text-xs text-gray-400 space-y-0.5">
+                  <div>
+                    {level !== null
+                      ? `≈ ${Math.round(feeder.capacity_ml * level / 100)} of ${feeder.capacity_ml} ml`
+                      : `${feeder.capacity_ml} ml capacity`}
+                  </div>
+                  <div>Alert below {feeder.threshold}%</div>
+                  {feeder.forecast && (
+                    <div className="text-purple-200">⏱️ {describeForecast(feeder.forecast)}</div>
+                  )}
+                  {feeder.latest && (
+                    <div>Updated {new Date(feeder.latest.timestamp).toLocaleString()}</div>
+                  )}
+                  {feeder.nectar_age?.stale && (
+                    <div className="text-orange-300">⚠️ Nectar {Math.floor(feeder.nectar_age.hours / 24)} days old</div>
+                  )}
+                  {(feeder.latest?.quality?.shift ?? 0) > QUALITY_LIMITS.maxShift && (
+                    <div className="text-amber-300">📷 Camera moved; check the calibration</div>
+                  )}
+                </div>
+
+                {low && (
+                  <div className="mt-2 text-center text-xs font-bold text-red-300">🚨 REFILL NEEDED</div>
+                )}
+
+                <div className="mt-2 flex justify-center gap-3">
+                  <Link
+                    href={`/history?feeder=${encodeURIComponent(feeder.id)}`}
+                    className="text-xs text-pink-300 hover:text-pink-200 underline"
+                  >
+                    History →
+                  </Link>
+                  <Link
+                    href={`/monitor?feeder=${encodeURIComponent(feeder.id)}`}
+                    className="text-xs text-pink-300 hover:text-pink-200 underline"
+                  >
+                    Live →
+                  </Link>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Add Feeder */}
+        <form onSubmit={addFeeder} className="bg-white/10 backdrop-blur rounded-2xl p-3 mt-3">
+          <h3 className="text-white font-semibold mb-2 text-sm">➕ Add Feeder</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+            <label className="text-purple-200">
+              Name
+              <input
+                required
+                maxLength={60}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+            <label className="text-purple-200">
+              Capacity (ml)
+              <input
+                type="number"
+                min={1}
+                required
+                value={form.capacity_ml}
+                onChange={(e) => setForm({ ...form, capacity_ml: Number(e.target.value) })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+            <label className="text-purple-200">
+              Alert threshold (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                required
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+            <label className="text-purple-200">
+              Location
+              <input
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                placeholder="e.g. Back porch"
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="mt-3 w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white font-bold py-2 rounded-xl transition"
+          >
+            Add Feeder
+          </button>
+        </form>
+
+        {/* Export / Import */}
+        <div className="bg-white/10 backdrop-blur rounded-2xl p-3 mt-3">
+          <h3 className="text-white font-semibold mb-2 text-sm">💾 Export &amp; Import</h3>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <label className="text-purple-200">
+              Feeder
+              <select
+                value={exportRange.feeder}
+                onChange={(e) => setExportRange({ ...exportRange, feeder: e.target.value })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              >
+                <option value="">All feeders</option>
+                {feeders.map(feeder => (
+                  <option key={feeder.id} value={feeder.id}>{feeder.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-purple-200">
+              From
+              <input
+                type="date"
+                value={exportRange.from}
+                onChange={(e) => setExportRange({ ...exportRange, from: e.target.value })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+            <label className="text-purple-200">
+              To
+              <input
+                type="date"
+                value={exportRange.to}
+                onChange={(e) => setExportRange({ ...exportRange, to: e.target.value })}
+                className="mt-1 w-full bg-black/40 text-white rounded px-2 py-1"
+              />
+            </label>
+          </div>
+          <div className="flex gap-2 mt-3">
+            <a
+              href={exportUrl('csv')}
+              className="flex-1 text-center bg-purple-500/60 hover:bg-purple-500/80 text-white text-sm font-medium py-2 rounded-xl transition"
+            >
+              ⬇️ CSV
+            </a>
+            <a
+              href={exportUrl('json')}
+              className="flex-1 text-center bg-purple-500/60 hover:bg-purple-500/80 text-white text-sm font-medium py-2 rounded-xl transition"
+            >
+              ⬇️ JSON
+            </a>
+            <label className="flex-1 text-center bg-white/10 hover:bg-white/20 text-white text-sm font-medium py-2 rounded-xl transition cursor-pointer">
+              ⬆️ Import
+              <input type="file" accept=".json,.csv,application/json,text/csv" onChange={importHistory} className="hidden" />
+            </label>
+          </div>
+          {importMessage && (
+            <div className="mt-2 text-xs text-emerald-300">{importMessage}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
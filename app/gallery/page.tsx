@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import AccuracyPanel from '../components/AccuracyPanel'
+import SnapshotViewer from '../components/SnapshotViewer'
+import type { Feeder, Reading, Snapshot } from '@/lib/types'
+
+const PAGE_SIZE = 48
+
+type GalleryItem = Snapshot & { reading: Reading | null }
+
+export default function GalleryPage() {
+  const [feeders, setFeeders] = useState<Feeder[]>([])
+  const [feederId, setFeederId] = useState('')
+  const [items, setItems] = useState<GalleryItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [enabled, setEnabled] = useState(true)
+  const [selectedReading, setSelectedReading] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [correctionCount, setCorrectionCount] = useState(0)
+
+  useEffect(() => {
+    fetch('/hummiguard-ai/api/feeders')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ feeders }: { feeders: Feeder[] }) => setFeeders(feeders))
+      .catch(err => console.error('Feeder load error:', err))
+  }, [])
+
+  const loadPage = useCallback(async (offset: number) => {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (feederId) params.set('feeder', feederId)
+      const response = await fetch(`/hummiguard-ai/api/snapshots?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load snapshots')
+      }
+      setItems(prev => offset === 0 ? data.snapshots : [...prev, ...data.snapshots])
+      setTotal(data.total)
+      setEnabled(data.enabled)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }, [feederId])
+
+  useEffect(() => {
+    loadPage(0)
+  }, [loadPage])
+
+  const feederName = (id: string) => feeders.find(f => f.id === id)?.name ?? id
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+            <span className="text-3xl">🖼️</span>
+            Snapshots
+          </h1>
+          <div className="flex justify-center gap-4">
+            <Link href="/" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              ← Back to camera
+            </Link>
+            <Link href="/history" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              Level history →
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        {!enabled && (
+          <div className="bg-white/10 text-purple-200 px-3 py-2 rounded-xl mb-3 text-xs">
+            Frames are not being archived. Set <code>SNAPSHOTS_ENABLED=true</code> on the server to keep them.
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mb-3">
+          <select
+            value={feederId}
+            onChange={(e) => setFeederId(e.target.value)}
+            className="bg-black/40 text-white rounded px-2 py-1 text-xs"
+          >
+            <option value="">All feeders</option>
+            {feeders.map(feeder => (
+              <option key={feeder.id} value={feeder.id}>{feeder.name}</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-400">{total} frames</span>
+        </div>
+
+        <AccuracyPanel feeders={feeders} feederId={feederId} refreshKey={correctionCount} />
+
+        {/* Thumbnails */}
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+          {items.map(item => (
+            <button
+              key={item.reading_id}
+              onClick={() => setSelectedReading(item.reading_id)}
+              className="relative aspect-[4/3] rounded-lg overflow-hidden bg-black/40 hover:ring-2 hover:ring-pink-400 transition"
+              title={item.reading?.description}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={`/hummiguard-ai/api/snapshots/${item.reading_id}/image`}
+                alt={`Frame from ${new Date(item.timestamp).toLocaleString()}`}
+                loading="lazy"
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-[10px] text-white px-1 py-0.5 flex justify-between">
+                <span>{new Date(item.timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</span>
+                <span className={item.reading?.confidence === 'low' ? 'text-gray-400' : ''}>
+                  {item.reading && item.reading.level >= 0 ? `${item.reading.level}%` : '—'}
+                </span>
+              </div>
+              {!feederId && feeders.length > 1 && (
+                <div className="absolute top-0 left-0 bg-black/60 text-[10px] text-purple-200 px-1 rounded-br">
+                  {feederName(item.feeder_id)}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {items.length < total && (
+          <button
+            onClick={() => loadPage(items.length)}
+            className="mt-3 w-full bg-white/10 hover:bg-white/20 text-white text-sm py-2 rounded-xl transition"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+
+      {selectedReading && (
+        <SnapshotViewer
+          readingId={selectedReading}
+          onClose={() => setSelectedReading(null)}
+          onCorrected={() => setCorrectionCount(c => c + 1)}
+        />
+      )}
+    </div>
+  )
+}
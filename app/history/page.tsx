@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import LevelChart from '../components/LevelChart'
+import SnapshotViewer from '../components/SnapshotViewer'
+import type { Feeder, FeederEvent, SeriesPoint } from '@/lib/types'
+
+const ACTIVE_FEEDER_KEY = 'hummiguard.activeFeeder'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const RANGES = [
+  { label: '6h', ms: 6 * HOUR_MS },
+  { label: '24h', ms: 24 * HOUR_MS },
+  { label: '7d', ms: 7 * 24 * HOUR_MS },
+  { label: '30d', ms: 30 * 24 * HOUR_MS },
+]
+
+interface Series {
+  threshold: number
+  points: SeriesPoint[]
+  events: FeederEvent[]
+}
+
+export default function HistoryPage() {
+  const [feeders, setFeeders] = useState<Feeder[]>([])
+  const [feederId, setFeederId] = useState<string | null>(null)
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms)
+  const [zoom, setZoom] = useState<{ from: number, to: number } | null>(null)
+  const [view, setView] = useState<{ from: number, to: number } | null>(null)
+  const [series, setSeries] = useState<Series | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedReading, setSelectedReading] = useState<string | null>(null)
+
+  // Feeder from ?feeder=, else the one last used on the camera page
+  useEffect(() => {
+    fetch('/hummiguard-ai/api/feeders')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ feeders }: { feeders: Feeder[] }) => {
+        setFeeders(feeders)
+        const requested = new URLSearchParams(window.location.search).get('feeder')
+          || localStorage.getItem(ACTIVE_FEEDER_KEY)
+        setFeederId(feeders.find(f => f.id === requested)?.id ?? feeders[0]?.id ?? null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+  }, [])
+
+  // Zoom windows are fixed; preset ranges end now
+  useEffect(() => {
+    setView(zoom ?? { from: Date.now() - rangeMs, to: Date.now() })
+  }, [zoom, rangeMs])
+
+  useEffect(() => {
+    if (!feederId || !view) return
+
+    const params = new URLSearchParams({
+      feeder: feederId,
+      from: new Date(view.from).toISOString(),
+      to: new Date(view.to).toISOString(),
+      points: '400',
+    })
+    fetch(`/hummiguard-ai/api/readings/series?${params}`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load history')
+        setSeries(data)
+        setError(null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+  }, [feederId, view])
+
+  const selectRange = (ms: number) => {
+    setZoom(null)
+    setRangeMs(ms)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+            <span className="text-3xl">📈</span>
+            Level History
+          </h1>
+          <Link href="/" className="text-xs text-pink-300 hover:text-pink-200 underline">
+            ← Back to camera
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <select
+              value={feederId ?? ''}
+              onChange={(e) => setFeederId(e.target.value)}
+              className="bg-black/40 text-white rounded px-2 py-1 text-xs"
+            >
+              {feeders.map(feeder => (
+                <option key={feeder.id} value={feeder.id}>{feeder.name}</option>
+              ))}
+            </select>
+
+            <div className="flex gap-1">
+              {RANGES.map(range => (
+                <button
+                  key={range.label}
+                  onClick={() => selectRange(range.ms)}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium transition ${
+                    !zoom && rangeMs === range.ms ? 'bg-purple-500 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+              {zoom && (
+                <button
+                  onClick={() => setZoom(null)}
+                  className="px-2 py-1 rounded-lg text-xs font-medium bg-pink-500/80 hover:bg-pink-500 text-white transition"
+                >
+                  Reset zoom
+                </button>
+              )}
+            </div>
+          </div>
+
+          {series && view && (
+            <LevelChart
+              points={series.points}
+              events={series.events}
+              threshold={series.threshold}
+              from={view.from}
+              to={view.to}
+              onZoom={(from, to) => setZoom({ from, to })}
+              onSelect={(point) => setSelectedReading(point.reading_id)}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-3 text-[10px] text-gray-400 mt-2">
+            <span><span className="inline-block w-3 h-0.5 bg-pink-400 align-middle mr-1" />smoothed level</span>
+            <span><span className="inline-block w-2 h-2 bg-rose-300 rounded-full mr-1" />reading</span>
+            <span><span className="inline-block w-2 h-2 border border-gray-400 rounded-full mr-1" />low confidence</span>
+            <span><span className="inline-block w-3 border-t border-dashed border-yellow-400 align-middle mr-1" />alert threshold</span>
+            <span className="text-emerald-400">↑ refill</span>
+            <span className="text-blue-400">✦ cleaned</span>
+            <span>Drag across the chart to zoom, click a point to see its frame</span>
+          </div>
+        </div>
+      </div>
+
+      {selectedReading && (
+        <SnapshotViewer readingId={selectedReading} onClose={() => setSelectedReading(null)} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+
+export default function LoginPage() {
+  const [token, setToken] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/hummiguard-ai/api/session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: token.trim() })
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Sign in failed')
+      }
+
+      // Only follow same-app paths so the login page can't be used as an open redirect
+      const next = new URLSearchParams(window.location.search).get('next') || '/'
+      window.location.href = `/hummiguard-ai${next.startsWith('/') && !next.startsWith('//') ? next : '/'}`
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3 flex items-center justify-center">
+      <form onSubmit={signIn} className="w-full max-w-sm bg-white/10 backdrop-blur rounded-2xl p-4">
+        <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+          <span className="text-3xl">🐦</span>
+          HummiGuard AI
+        </h1>
+        <p className="text-purple-200 text-xs text-center mb-4">Enter your access token to continue</p>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        <input
+          type="password"
+          required
+          autoFocus
+          autoComplete="current-password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Access token"
+          className="w-full bg-black/40 text-white rounded px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !token.trim()}
+          className="mt-3 w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white font-bold py-2 rounded-xl transition"
+        >
+          Sign In
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAlertSound } from '../components/useAlertSound'
+import { useFeederSchedule } from '../components/useFeederSchedule'
+import { LiveStatus, useLiveFeed } from '../components/useLiveFeed'
+import { describeForecast } from '@/lib/format'
+import type { AlertStatus, Feeder, Forecast, Reading } from '@/lib/types'
+
+const ACTIVE_FEEDER_KEY = 'hummiguard.activeFeeder'
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+}
+
+// Read-only view of a feeder that another device is scanning
+export default function MonitorPage() {
+  const [feeders, setFeeders] = useState<Feeder[]>([])
+  const [feederId, setFeederId] = useState<string | null>(null)
+  const [feeder, setFeeder] = useState<Feeder | null>(null)
+  const [latest, setLatest] = useState<Reading | null>(null)
+  const [forecast, setForecast] = useState<Forecast | null>(null)
+  const [alert, setAlert] = useState<AlertStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Feeder from ?feeder=, else the one last used on this device
+  useEffect(() => {
+    fetch('/hummiguard-ai/api/feeders')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ feeders }: { feeders: Feeder[] }) => {
+        setFeeders(feeders)
+        const requested = new URLSearchParams(window.location.search).get('feeder')
+          || localStorage.getItem(ACTIVE_FEEDER_KEY)
+        setFeederId(feeders.find(f => f.id === requested)?.id ?? feeders[0]?.id ?? null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+  }, [])
+
+  const status = useLiveFeed(feederId, {
+    onSnapshot: (snapshot) => {
+      setFeeder(snapshot.feeder)
+      setLatest(snapshot.latest)
+      setAlert(snapshot.alert)
+      setForecast(null)
+    },
+    onReading: (reading) => {
+      if (!reading.feeder_visible || reading.level < 0) return
+      setLatest(reading)
+      setForecast(reading.forecast)
+    },
+    onAlert: setAlert,
+  })
+
+  const schedule = useFeederSchedule(feederId)
+  useAlertSound(!!alert?.active && !alert.muted && !schedule?.quiet)
+
+  const toggleMute = async () => {
+    if (!alert) return
+
+    try {
+      const response = await fetch(`/hummiguard-ai/api/feeders/${alert.feeder_id}/alert`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ muted: !alert.muted })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update mute')
+      }
+      setAlert(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const level = latest ? latest.smoothed_level ?? latest.level : null
+  const threshold = feeder?.threshold ?? 25
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+            <span className="text-3xl">📺</span>
+            Live Monitor
+          </h1>
+          <div className="flex justify-center gap-4">
+            <Link href="/" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              ← Back to camera
+            </Link>
+            <Link href="/dashboard" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              All feeders →
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Alert Banner */}
+        {alert?.active && (
+          <div className="bg-gradient-to-r from-red-600 to-orange-500 text-white p-3 rounded-xl mb-3 flex items-center justify-between shadow-lg shadow-red-500/30">
+            <div className="flex items-center gap-2">
+              <span className="text-2xl animate-bounce">⚠️</span>
+              <div>
+                <div className="font-bold">LOW NECTAR ALERT!</div>
+                <div className="text-xs opacity-90">
+                  {feeder?.name} at {level}% — Time to refill!{alert.muted ? ' (silenced)' : schedule?.quiet && ' (quiet hours)'}
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={toggleMute}
+              className="bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-lg transition"
+              title={alert.muted ? 'Sound the alarm on every device' : 'Silence the alarm on every device'}
+            >
+              {alert.muted ? '🔇' : '🔊'}
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <select
+              value={feederId ?? ''}
+              onChange={(e) => setFeederId(e.target.value)}
+              className="bg-black/40 text-white rounded px-2 py-1 text-xs"
+            >
+              {feeders.map(f => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <span className={`flex items-center gap-1 text-xs ${status === 'live' ? 'text-green-400' : 'text-yellow-400'}`}>
+              <span className={`w-2 h-2 rounded-full ${status === 'live' ? 'bg-green-400 animate-pulse' : 'bg-yellow-400'}`} />
+              {STATUS_LABELS[status]}
+            </span>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-3">
+            {/* Level Gauge */}
+            <div className="relative h-56 bg-gray-800 rounded-xl overflow-hidden border-4 border-gray-600">
+              {level !== null ? (
+                <>
+                  <div
+                    className={`absolute bottom-0 left-0 right-0 transition-all duration-1000 ${
+                      level < threshold
+                        ? 'bg-gradient-to-t from-red-600 to-orange-400'
+                        : 'bg-gradient-to-t from-pink-600 to-rose-400'
+                    }`}
+                    style={{ height: `${level}%` }}
+                  />
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <span className="text-6xl font-bold text-white drop-shadow-lg">{level}%</span>
+                  </div>
+                </>
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-xs">
+                  No readings yet
+                </div>
+              )}
+              {/* Threshold line */}
+              <div
+                className="absolute left-0 right-0 border-t-2 border-dashed border-yellow-400"
+                style={{ bottom: `${threshold}%` }}
+              >
+                <span className="absolute -top-4 right-1 text-yellow-400 text-xs font-bold">
+                  {threshold}%
+                </span>
+              </div>
+            </div>
+
+            {/* Latest reading */}
+            <div className="md:col-span-2 bg-black/30 rounded-xl p-3 text-sm space-y-2">
+              {latest ? (
+                <>
+                  <div className="text-xs text-gray-400">
+                    Last reading {new Date(latest.timestamp).toLocaleString()}
+                  </div>
+                  <div className="text-purple-200">&quot;{latest.description}&quot;</div>
+                  <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+                    <span>Confidence: <span className="text-white">{latest.confidence}</span></span>
+                    {latest.smoothed_level !== null && latest.smoothed_level !== latest.level && (
+                      <span>Raw: {latest.level}%</span>
+                    )}
+                    {latest.birds.count > 0 && (
+                      <span>🐦 {latest.birds.count}{latest.birds.species && ` · ${latest.birds.species}`}</span>
+                    )}
+                  </div>
+                  {forecast && (
+                    <div className="text-xs text-purple-200">{describeForecast(forecast)}</div>
+                  )}
+                </>
+              ) : (
+                <div className="text-xs text-gray-400">
+                  Waiting for the camera. Readings appear here as soon as a device scans this feeder.
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
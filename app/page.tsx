@@ -1,33 +1,66 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect } from 'react'
+import Link from 'next/link'
+import CalibrationOverlay, { CalibrationOutline } from './components/CalibrationOverlay'
+import SchedulePanel from './components/SchedulePanel'
+import SnapshotViewer from './components/SnapshotViewer'
+import { useAlertSound } from './components/useAlertSound'
+import { useFeederSchedule } from './components/useFeederSchedule'
+import { useLiveFeed } from './components/useLiveFeed'
+import VisitorsPanel from './components/VisitorsPanel'
+import { cropRect } from '@/lib/calibration'
+import { frameDifference, MOTION_THRESHOLDS, MotionSensitivity, sampleFrame } from '@/lib/frames'
+import { getPushStatus, PushStatus, registerServiceWorker, subscribeToPush, unsubscribeFromPush } from '@/lib/push-client'
+import { countQueuedScans, deferQueuedScan, enqueueScan, isQueueSupported, listQueuedScans, MAX_QUEUE_AGE_MS, NewScan, removeQueuedScan } from '@/lib/scan-queue'
+import { describeForecast, formatTimeUntil } from '@/lib/format'
+import { createQualityGate, MAX_QUALITY_RETRIES, QUALITY_ISSUE_LABELS, QUALITY_LIMITS, QUALITY_RETRY_SECONDS, QUALITY_SAMPLE_HEIGHT, QUALITY_SAMPLE_WIDTH, TRANSIENT_ISSUES } from '@/lib/quality'
+import type { AnalysisResult as ServerAnalysis, AnalyzeResponse, Confidence, Feeder, FeederCalibration, FeederEvent, FeederEventType, FeederSummary, Forecast, FrameQuality, NectarAge, Reading } from '@/lib/types'
 
-interface AnalysisResult {
-  level: number
-  confidence: 'high' | 'medium' | 'low'
-  description: string
-  feeder_visible: boolean
+interface AnalysisResult extends ServerAnalysis {
+  id?: string
+  smoothed_level?: number | null
+  quality?: FrameQuality | null
   timestamp?: string
   raw?: string
 }
 
+const ACTIVE_FEEDER_KEY = 'hummiguard.activeFeeder'
+
+type TriggerMode = 'timer' | 'motion'
+
+// Timer mode scans on a fixed interval; motion mode scans on scene changes,
+// falling back to a scan after the longer maximum wait
+const INTERVAL_OPTIONS: Record<TriggerMode, number[]> = {
+  timer: [10, 30, 60, 120],
+  motion: [120, 300, 600, 1800],
+}
+
+const MOTION_CHECK_MS = 1000
+// Never scan more often than this, however busy the scene
+const MIN_MOTION_GAP_MS = 8000
+
+// How often to check for queued offline scans that are due for another try
+const QUEUE_RETRY_MS = 5000
+
 interface HistoryEntry {
   level: number
   time: string
-  confidence: 'high' | 'medium' | 'low'
-}
-
-// Extend Window interface for webkit audio context
-declare global {
-  interface Window {
-    webkitAudioContext: typeof AudioContext
-  }
+  confidence: Confidence
 }
 
 export default function HummiGuardAI() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
+  const motionCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const qualityCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const referenceFrameRef = useRef<Uint8ClampedArray | null>(null)
+  const qualityGateRef = useRef(createQualityGate())
+  // Quick retries in a row after a transient quality problem
+  const qualityRetriesRef = useRef(0)
+  const lastScanRef = useRef(0)
+  // Set when the server rate limits us; motion must not trigger scans before it
+  const blockedUntilRef = useRef(0)
 
   const [isRunning, setIsRunning] = useState(false)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
@@ -37,9 +70,30 @@ export default function HummiGuardAI() {
   const [threshold, setThreshold] = useState(25)
   const [cameraError, setCameraError] = useState<string | null>(null)
   const [lastAnalysis, setLastAnalysis] = useState<AnalysisResult | null>(null)
+  const [correctingReading, setCorrectingReading] = useState<string | null>(null)
   const [analysisInterval, setAnalysisInterval] = useState(30)
   const [countdown, setCountdown] = useState(0)
   const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [feeders, setFeeders] = useState<FeederSummary[]>([])
+  const [activeFeederId, setActiveFeederId] = useState<string | null>(null)
+  const [pushStatus, setPushStatus] = useState<PushStatus>('unsupported')
+  const [forecast, setForecast] = useState<Forecast | null>(null)
+  const [lastRefill, setLastRefill] = useState<FeederEvent | null>(null)
+  const [nectarAge, setNectarAge] = useState<NectarAge | null>(null)
+  const [readingCount, setReadingCount] = useState(0)
+  const [triggerMode, setTriggerMode] = useState<TriggerMode>('timer')
+  const [sensitivity, setSensitivity] = useState<MotionSensitivity>('medium')
+  const [motionLevel, setMotionLevel] = useState(0)
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const [isOnline, setIsOnline] = useState(true)
+  const [queuedScans, setQueuedScans] = useState(0)
+  const [queueTick, setQueueTick] = useState(0)
+  const flushingRef = useRef(false)
+
+  const activeFeeder = feeders.find(f => f.id === activeFeederId) || null
+  const schedule = useFeederSchedule(activeFeederId, JSON.stringify(activeFeeder?.schedule ?? null))
+  // Outside the feeder's active hours the countdown holds; Scan Now still works
+  const schedulePaused = schedule?.active === false
 
   // Start camera
   const startCamera = async () => {
@@ -54,6 +108,9 @@ export default function HummiGuardAI() {
       if (videoRef.current) {
         videoRef.current.srcObject = stream
         await videoRef.current.play()
+        // The camera may have been set up differently since the last session
+        qualityGateRef.current = createQualityGate()
+        qualityRetriesRef.current = 0
         setIsRunning(true)
         setCameraError(null)
         setCountdown(5)
@@ -75,6 +132,19 @@ export default function HummiGuardAI() {
     setCountdown(0)
   }
 
+  // Small grayscale copy of the current frame for change detection
+  const sampleVideo = (): Uint8ClampedArray | null => {
+    if (!videoRef.current || videoRef.current.readyState < 2) return null
+    if (!motionCanvasRef.current) motionCanvasRef.current = document.createElement('canvas')
+    return sampleFrame(videoRef.current, motionCanvasRef.current)
+  }
+
+  const changeTriggerMode = (mode: TriggerMode) => {
+    setTriggerMode(mode)
+    setAnalysisInterval(INTERVAL_OPTIONS[mode][1])
+    if (isRunning && !isAnalyzing) setCountdown(INTERVAL_OPTIONS[mode][1])
+  }
+
   // Capture frame as base64
   const captureFrame = (): string | null => {
     if (!videoRef.current || !canvasRef.current) return null
@@ -84,64 +154,208 @@ export default function HummiGuardAI() {
     const ctx = canvas.getContext('2d')
     if (!ctx) return null
 
-    canvas.width = video.videoWidth || 640
-    canvas.height = video.videoHeight || 480
-
-    ctx.drawImage(video, 0, 0)
+    const calibration = activeFeeder?.calibration
+    if (calibration && video.videoWidth > 0) {
+      // Send only the calibrated reservoir region
+      const crop = cropRect(calibration, video.videoWidth, video.videoHeight)
+      canvas.width = crop.width
+      canvas.height = crop.height
+      ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height)
+    } else {
+      canvas.width = video.videoWidth || 640
+      canvas.height = video.videoHeight || 480
+      ctx.drawImage(video, 0, 0)
+    }
 
     const base64 = canvas.toDataURL('image/jpeg', 0.8).split(',')[1]
     return base64
   }
 
+  const postScan = ({ image, feeder_id, calibration, quality, captured_at }: NewScan) => fetch('/hummiguard-ai/api/analyze', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ image, feeder_id, calibration, quality, captured_at })
+  })
+
+  // Measure the captured frame, and say why if it isn't worth sending
+  const checkQuality = (motionSample: Uint8ClampedArray | null): { quality?: FrameQuality, skipped?: string, retryIn?: number } => {
+    if (!canvasRef.current || !motionSample) return {}
+    if (!qualityCanvasRef.current) qualityCanvasRef.current = document.createElement('canvas')
+    const detail = sampleFrame(canvasRef.current, qualityCanvasRef.current, QUALITY_SAMPLE_WIDTH, QUALITY_SAMPLE_HEIGHT)
+    if (!detail) return {}
+
+    const { quality, issue } = qualityGateRef.current.check(detail, motionSample)
+    if (!issue) {
+      qualityRetriesRef.current = 0
+      return { quality }
+    }
+
+    const retry = TRANSIENT_ISSUES.includes(issue) && qualityRetriesRef.current < MAX_QUALITY_RETRIES
+    qualityRetriesRef.current = retry ? qualityRetriesRef.current + 1 : 0
+    return { skipped: QUALITY_ISSUE_LABELS[issue], retryIn: retry ? Math.min(QUALITY_RETRY_SECONDS, analysisInterval) : undefined }
+  }
+
+  // Display a reading returned by the analyze route
+  const showResult = (result: AnalyzeResponse) => {
+    setReadingCount(c => c + 1)
+    // A queued scan may belong to a feeder that is no longer selected
+    if (activeFeederId && result.feeder_id !== activeFeederId) return
+
+    const timestamp = new Date(result.timestamp).toLocaleTimeString()
+
+    setLastAnalysis({
+      ...result,
+      timestamp,
+    })
+    setNectarAge(result.nectar_age)
+
+    if (result.feeder_visible && result.level >= 0) {
+      setNectarLevel(result.smoothed_level ?? result.level)
+
+      setHistory(prev => [...prev.slice(-19), {
+        level: result.level,
+        time: timestamp,
+        confidence: result.confidence
+      }])
+
+      setAlertActive(result.alert_active)
+      setForecast(result.forecast)
+      if (result.refill) setLastRefill(result.refill)
+    }
+  }
+
+  // Upload scans queued while offline, oldest first, stopping at the first that can't go yet
+  const flushQueue = async () => {
+    if (flushingRef.current) return
+    flushingRef.current = true
+
+    try {
+      for (const scan of await listQueuedScans()) {
+        if (Date.now() - Date.parse(scan.captured_at) > MAX_QUEUE_AGE_MS) {
+          await removeQueuedScan(scan.id)
+          continue
+        }
+        if (scan.next_attempt_at > Date.now()) break
+
+        let response: Response
+        try {
+          response = await postScan(scan)
+        } catch {
+          await deferQueuedScan(scan)
+          break
+        }
+
+        if (response.status === 429) {
+          const errorData = await response.json()
+          await deferQueuedScan(scan, errorData.retry_after)
+          break
+        }
+        if (response.status === 401 || response.status >= 500) {
+          await deferQueuedScan(scan)
+          break
+        }
+
+        // Anything else is final: uploaded, or rejected for good
+        await removeQueuedScan(scan.id)
+        if (response.ok) {
+          showResult(await response.json())
+        } else {
+          console.error('Queued scan rejected:', (await response.json()).error)
+        }
+      }
+    } catch (err) {
+      console.error('Scan queue error:', err)
+    } finally {
+      flushingRef.current = false
+      setQueuedScans(await countQueuedScans().catch(() => 0))
+    }
+  }
+
   // Call our API route to analyze the image
   const analyzeWithAI = async () => {
     if (isAnalyzing) return
 
     setIsAnalyzing(true)
+    let nextScan = analysisInterval
 
     try {
       const imageBase64 = captureFrame()
       if (!imageBase64) {
         throw new Error('Failed to capture frame')
       }
+      // Later frames are compared against the one that was analyzed
+      const sample = sampleVideo()
+      referenceFrameRef.current = sample
+      lastScanRef.current = Date.now()
 
-      const response = await fetch('/hummiguard-ai/api/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ image: imageBase64 })
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'API request failed')
+      // Don't spend an API call on a frame the model couldn't read
+      const { quality, skipped, retryIn } = checkQuality(sample)
+      if (skipped) {
+        if (retryIn) nextScan = retryIn
+        setLastAnalysis({
+          level: -1,
+          confidence: 'low',
+          description: `Scan skipped: ${skipped}${retryIn ? `. Trying again in ${retryIn}s` : ''}`,
+          feeder_visible: false,
+          birds: { count: 0, species: null, species_confidence: null },
+          timestamp: new Date().toLocaleTimeString()
+        })
+        return
       }
 
-      const result: AnalysisResult = await response.json()
-      const timestamp = new Date().toLocaleTimeString()
-
-      setLastAnalysis({
-        ...result,
-        timestamp,
-      })
-
-      if (result.feeder_visible && result.level >= 0) {
-        setNectarLevel(result.level)
+      const scan: NewScan = {
+        image: imageBase64,
+        feeder_id: activeFeederId,
+        calibration: activeFeeder?.calibration
+          ? { empty_line: activeFeeder.calibration.empty_line, full_line: activeFeeder.calibration.full_line }
+          : undefined,
+        quality,
+        captured_at: new Date().toISOString(),
+      }
 
-        setHistory(prev => [...prev.slice(-19), {
-          level: result.level,
-          time: timestamp,
-          confidence: result.confidence
-        }])
+      let response: Response
+      try {
+        response = await postScan(scan)
+      } catch (err) {
+        if (!isQueueSupported()) throw err
+        // No connection: keep the frame and upload it when we're back online
+        await enqueueScan(scan)
+        setQueuedScans(await countQueuedScans())
+        setLastAnalysis({
+          level: -1,
+          confidence: 'low',
+          description: 'Offline: this scan was saved on the device and will upload when the connection returns',
+          feeder_visible: false,
+          birds: { count: 0, species: null, species_confidence: null },
+          timestamp: new Date(scan.captured_at).toLocaleTimeString()
+        })
+        return
+      }
 
-        if (result.level < threshold) {
-          setAlertActive(true)
-        } else {
-          setAlertActive(false)
+      if (response.status === 401) {
+        window.location.href = '/hummiguard-ai/login?next=/'
+        return
+      }
+      if (response.status === 429) {
+        // Hold off until the server says we may scan again
+        const errorData = await response.json()
+        if (errorData.code === 'budget_exceeded') {
+          stopCamera()
+          throw new Error(errorData.error)
         }
+        nextScan = Math.max(errorData.retry_after || analysisInterval, 1)
+        blockedUntilRef.current = Date.now() + nextScan * 1000
+        throw new Error(`${errorData.error || 'Too many requests'}. Retrying in ${formatTimeUntil(new Date(blockedUntilRef.current).toISOString())}`)
+      }
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'API request failed')
       }
 
+      showResult(await response.json())
+
     } catch (err) {
       console.error('AI Analysis error:', err)
       setLastAnalysis({
@@ -149,56 +363,188 @@ export default function HummiGuardAI() {
         confidence: 'low',
         description: `Error: ${err instanceof Error ? err.message : 'Unknown error'}`,
         feeder_visible: false,
+        birds: { count: 0, species: null, species_confidence: null },
         timestamp: new Date().toLocaleTimeString()
       })
     } finally {
       setIsAnalyzing(false)
-      setCountdown(analysisInterval)
+      setCountdown(nextScan)
+    }
+  }
+
+  // Log a refill or cleaning done by hand
+  const logFeederEvent = async (type: FeederEventType) => {
+    if (!activeFeederId) return
+
+    try {
+      const response = await fetch(`/hummiguard-ai/api/feeders/${activeFeederId}/events`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type })
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to log event')
+      }
+      const event: FeederEvent = await response.json()
+      if (event.type === 'refill') {
+        setLastRefill(event)
+        setNectarAge(prev => prev && { ...prev, hours: 0, stale: false })
+        setForecast(null)
+      }
+    } catch (err) {
+      console.error('Feeder event error:', err)
     }
   }
 
-  // Play alert sound
-  const playAlertSound = useCallback(() => {
-    if (alertMuted) return
+  // Store (or clear) the reservoir calibration on the active feeder
+  const saveCalibration = async (calibration: FeederCalibration | null) => {
+    if (!activeFeederId) return
 
     try {
-      if (!audioContextRef.current) {
-        const AudioContextClass = window.AudioContext || window.webkitAudioContext
-        audioContextRef.current = new AudioContextClass()
+      const response = await fetch(`/hummiguard-ai/api/feeders/${activeFeederId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ calibration })
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save calibration')
       }
+      const updated: Feeder = await response.json()
+      setFeeders(prev => prev.map(f => f.id === updated.id ? { ...f, ...updated } : f))
+      setIsCalibrating(false)
+    } catch (err) {
+      console.error('Calibration error:', err)
+      setCameraError(err instanceof Error ? err.message : 'Failed to save calibration')
+    }
+  }
 
-      const ctx = audioContextRef.current
-      if (ctx.state === 'suspended') ctx.resume()
+  // Toggle low nectar push notifications for this device
+  const togglePush = async () => {
+    try {
+      setPushStatus(pushStatus === 'on' ? await unsubscribeFromPush() : await subscribeToPush())
+    } catch (err) {
+      console.error('Push subscription error:', err)
+    }
+  }
 
-      const oscillator = ctx.createOscillator()
-      const gainNode = ctx.createGain()
+  // Register the service worker so pushes arrive while the tab is in the background
+  useEffect(() => {
+    registerServiceWorker()
+      .then(registration => registration ? getPushStatus() : 'unsupported')
+      .then(setPushStatus)
+      .catch(err => console.error('Service worker error:', err))
+  }, [])
 
-      oscillator.connect(gainNode)
-      gainNode.connect(ctx.destination)
+  // Track connectivity and retry queued scans every QUEUE_RETRY_MS
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true)
+    const goOffline = () => setIsOnline(false)
+    setIsOnline(navigator.onLine)
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    const timer = setInterval(() => setQueueTick(t => t + 1), QUEUE_RETRY_MS)
 
-      oscillator.frequency.setValueAtTime(1200, ctx.currentTime)
-      oscillator.frequency.exponentialRampToValueAtTime(800, ctx.currentTime + 0.1)
-      oscillator.type = 'sine'
-      gainNode.gain.setValueAtTime(0.3, ctx.currentTime)
-      gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.2)
+    countQueuedScans()
+      .then(setQueuedScans)
+      .catch(err => console.error('Scan queue error:', err))
 
-      oscillator.start()
-      oscillator.stop(ctx.currentTime + 0.2)
-    } catch (e) {
-      console.log('Audio not available')
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+      clearInterval(timer)
     }
-  }, [alertMuted])
+  }, [])
+
+  useEffect(() => {
+    if (isOnline && queuedScans > 0) flushQueue()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOnline, queueTick, queuedScans > 0])
+
+  // Load feeder profiles and restore the last selected one
+  useEffect(() => {
+    fetch('/hummiguard-ai/api/feeders')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ feeders }: { feeders: FeederSummary[] }) => {
+        setFeeders(feeders)
+        const saved = localStorage.getItem(ACTIVE_FEEDER_KEY)
+        const initial = feeders.find(f => f.id === saved) || feeders[0]
+        if (initial) setActiveFeederId(initial.id)
+      })
+      .catch(err => console.error('Feeder load error:', err))
+  }, [])
+
+  // Switch feeders: reset the display and use that feeder's threshold
+  useEffect(() => {
+    if (!activeFeederId) return
+    localStorage.setItem(ACTIVE_FEEDER_KEY, activeFeederId)
+    const feeder = feeders.find(f => f.id === activeFeederId)
+    if (feeder) setThreshold(feeder.threshold)
+    setForecast(feeder?.forecast ?? null)
+    setLastRefill(feeder?.last_refill ?? null)
+    setNectarAge(feeder?.nectar_age ?? null)
+    setNectarLevel(null)
+    setLastAnalysis(null)
+    setAlertActive(false)
+    setHistory([])
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeFeederId])
+
+  // Save threshold changes to the active feeder once the slider settles
+  useEffect(() => {
+    if (!activeFeeder || activeFeeder.threshold === threshold) return
+
+    const timer = setTimeout(() => {
+      fetch(`/hummiguard-ai/api/feeders/${activeFeeder.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ threshold })
+      })
+        .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+        .then((updated: Feeder) => setFeeders(prev => prev.map(f => f.id === updated.id ? { ...f, ...updated } : f)))
+        .catch(err => console.error('Threshold save error:', err))
+    }, 500)
+
+    return () => clearTimeout(timer)
+  }, [activeFeeder, threshold])
+
+  // Restore recent history for the active feeder from the server
+  useEffect(() => {
+    if (!activeFeederId) return
+
+    fetch(`/hummiguard-ai/api/readings?feeder=${encodeURIComponent(activeFeederId)}&limit=20`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ readings }: { readings: Reading[] }) => {
+        const entries = readings
+          .filter(r => r.feeder_visible && r.level >= 0)
+          .reverse()
+          .map(r => ({
+            level: r.level,
+            time: new Date(r.timestamp).toLocaleTimeString(),
+            confidence: r.confidence
+          }))
+        setHistory(prev => [...entries, ...prev].slice(-20))
+      })
+      .catch(err => console.error('History load error:', err))
+  }, [activeFeederId])
 
   // Countdown timer
   useEffect(() => {
-    if (!isRunning || countdown <= 0) return
+    if (!isRunning || countdown <= 0 || isCalibrating || schedulePaused) return
 
     const timer = setTimeout(() => {
       setCountdown(c => c - 1)
     }, 1000)
 
     return () => clearTimeout(timer)
-  }, [isRunning, countdown])
+  }, [isRunning, countdown, isCalibrating, schedulePaused])
 
   // Trigger analysis when countdown reaches 0
   useEffect(() => {
@@ -208,14 +554,62 @@ export default function HummiGuardAI() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [countdown, isRunning, isAnalyzing])
 
-  // Alert sound loop
+  // Motion mode: scan early when the scene changes enough
   useEffect(() => {
-    if (!alertActive || alertMuted) return
+    if (!isRunning || triggerMode !== 'motion' || isCalibrating || schedulePaused) return
+
+    const interval = setInterval(() => {
+      const frame = sampleVideo()
+      const reference = referenceFrameRef.current
+      if (!frame || !reference) return
+
+      const change = frameDifference(frame, reference)
+      setMotionLevel(change)
+
+      if (change >= MOTION_THRESHOLDS[sensitivity] &&
+          !isAnalyzing &&
+          Date.now() >= blockedUntilRef.current &&
+          Date.now() - lastScanRef.current >= MIN_MOTION_GAP_MS) {
+        setCountdown(0)
+      }
+    }, MOTION_CHECK_MS)
 
-    const interval = setInterval(playAlertSound, 2000)
-    playAlertSound()
     return () => clearInterval(interval)
-  }, [alertActive, alertMuted, playAlertSound])
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRunning, triggerMode, sensitivity, isAnalyzing, isCalibrating, schedulePaused])
+
+  useAlertSound(alertActive && !alertMuted && !schedule?.quiet)
+
+  // Alarm and mute state are shared with every other device watching this feeder
+  useLiveFeed(activeFeederId, {
+    onSnapshot: ({ alert }) => setAlertMuted(alert.muted),
+    onAlert: (alert) => {
+      setAlertActive(alert.active)
+      setAlertMuted(alert.muted)
+    },
+  })
+
+  const toggleMute = async () => {
+    const muted = !alertMuted
+    setAlertMuted(muted)
+    if (!activeFeederId) return
+
+    try {
+      const response = await fetch(`/hummiguard-ai/api/feeders/${activeFeederId}/alert`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ muted })
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update mute')
+      }
+    } catch (err) {
+      console.error('Mute error:', err)
+    }
+  }
 
   const getConfidenceColor = (conf: string): string => {
     switch(conf) {
@@ -236,8 +630,38 @@ export default function HummiGuardAI() {
             <span className="text-3xl">🤖</span>
           </h1>
           <p className="text-purple-300 text-xs">Developed by Vanshika Tyagi</p>
+          <div className="flex justify-center gap-4 mt-1">
+            <Link href="/dashboard" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              All feeders →
+            </Link>
+            <Link href="/gallery" className="text-xs text-pink-300 hover:text-pink-200 underline">
+              Snapshots →
+            </Link>
+            <Link
+              href={`/monitor${activeFeederId ? `?feeder=${encodeURIComponent(activeFeederId)}` : ''}`}
+              className="text-xs text-pink-300 hover:text-pink-200 underline"
+            >
+              Monitor →
+            </Link>
+          </div>
         </div>
 
+        {/* Offline queue */}
+        {(!isOnline || queuedScans > 0) && (
+          <div className="bg-amber-500/20 border border-amber-400/40 text-amber-100 px-3 py-2 rounded-xl mb-3 text-xs flex items-center justify-between gap-2">
+            <span>
+              {isOnline
+                ? '📤 Uploading scans saved while offline…'
+                : '📡 Offline: scans are saved on this device and uploaded when the connection returns'}
+            </span>
+            {queuedScans > 0 && (
+              <span className="shrink-0 bg-amber-500/30 px-2 py-0.5 rounded-full font-medium">
+                📦 {queuedScans} pending
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Alert Banner */}
         {alertActive && (
           <div className="bg-gradient-to-r from-red-600 to-orange-500 text-white p-3 rounded-xl mb-3 flex items-center justify-between shadow-lg shadow-red-500/30">
@@ -245,11 +669,13 @@ export default function HummiGuardAI() {
               <span className="text-2xl animate-bounce">⚠️</span>
               <div>
                 <div className="font-bold">LOW NECTAR ALERT!</div>
-                <div className="text-xs opacity-90">Level at {nectarLevel}% — Time to refill!</div>
+                <div className="text-xs opacity-90">
+                  Level at {nectarLevel}% — Time to refill!{schedule?.quiet && ' (quiet hours)'}
+                </div>
               </div>
             </div>
             <button
-              onClick={() => setAlertMuted(!alertMuted)}
+              onClick={toggleMute}
               className="bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-lg transition"
             >
               {alertMuted ? '🔇' : '🔊'}
@@ -293,10 +719,26 @@ export default function HummiGuardAI() {
                   </div>
                 )}
 
+                {isRunning && isCalibrating && (
+                  <CalibrationOverlay
+                    video={videoRef.current}
+                    onSave={saveCalibration}
+                    onCancel={() => setIsCalibrating(false)}
+                  />
+                )}
+
+                {isRunning && !isCalibrating && activeFeeder?.calibration && (
+                  <CalibrationOutline video={videoRef.current} calibration={activeFeeder.calibration} />
+                )}
+
                 {/* Countdown indicator */}
-                {isRunning && countdown > 0 && !isAnalyzing && (
+                {isRunning && countdown > 0 && !isAnalyzing && !isCalibrating && (
                   <div className="absolute top-2 right-2 bg-black/60 text-white px-2 py-1 rounded-lg text-sm">
-                    Next scan: {countdown}s
+                    {schedulePaused
+                      ? `🌙 Paused${schedule?.resumes_at ? ` until ${new Date(schedule.resumes_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}` : ''}`
+                      : triggerMode === 'motion'
+                      ? `👀 Watching · max ${countdown >= 120 ? `${Math.ceil(countdown / 60)}m` : `${countdown}s`}`
+                      : `Next scan: ${countdown}s`}
                   </div>
                 )}
 
@@ -307,12 +749,32 @@ export default function HummiGuardAI() {
                 )}
               </div>
 
+              {/* Feeder Selection */}
+              <div className="mt-3 bg-white/5 rounded-xl p-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-purple-200">Feeder:</span>
+                  <select
+                    value={activeFeederId ?? ''}
+                    onChange={(e) => setActiveFeederId(e.target.value)}
+                    disabled={isRunning || feeders.length === 0}
+                    className="flex-1 bg-black/40 text-white rounded px-2 py-1 text-xs disabled:opacity-60"
+                  >
+                    {feeders.map(f => (
+                      <option key={f.id} value={f.id}>
+                        {f.name}{f.location ? ` — ${f.location}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               {/* Controls */}
               <div className="flex gap-2 mt-3">
                 {!isRunning ? (
                   <button
                     onClick={startCamera}
-                    className="flex-1 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold py-2.5 px-4 rounded-xl transition shadow-lg"
+                    disabled={!activeFeeder}
+                    className="flex-1 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold py-2.5 px-4 rounded-xl transition shadow-lg disabled:opacity-50"
                   >
                     ▶️ Start AI Monitoring
                   </button>
@@ -326,21 +788,78 @@ export default function HummiGuardAI() {
                     </button>
                     <button
                       onClick={() => { setCountdown(0) }}
-                      disabled={isAnalyzing}
+                      disabled={isAnalyzing || isCalibrating}
                       className="bg-purple-500 hover:bg-purple-600 disabled:bg-gray-500 text-white font-bold py-2.5 px-4 rounded-xl transition"
                     >
                       🔍 Scan Now
                     </button>
+                    <button
+                      onClick={() => setIsCalibrating(!isCalibrating)}
+                      className={`font-bold py-2.5 px-3 rounded-xl transition ${
+                        isCalibrating ? 'bg-cyan-500 hover:bg-cyan-600' : 'bg-white/10 hover:bg-white/20'
+                      } text-white`}
+                      title="Mark the reservoir and its full/empty lines"
+                    >
+                      📐
+                    </button>
                   </>
                 )}
               </div>
 
-              {/* Interval Setting */}
-              <div className="mt-3 bg-white/5 rounded-xl p-2">
+              {/* Trigger Mode */}
+              <div className="mt-3 bg-white/5 rounded-xl p-2 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-purple-200">Scan on:</span>
+                  <div className="flex gap-1">
+                    {(['timer', 'motion'] as TriggerMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => changeTriggerMode(mode)}
+                        className={`px-2 py-1 rounded text-xs transition ${
+                          triggerMode === mode
+                            ? 'bg-purple-500 text-white'
+                            : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                        }`}
+                      >
+                        {mode === 'timer' ? '⏱️ Timer' : '👀 Motion'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {triggerMode === 'motion' && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-purple-200">Sensitivity:</span>
+                    <div className="flex items-center gap-1">
+                      {isRunning && (
+                        <div className="w-12 h-1.5 bg-black/40 rounded overflow-hidden mr-1" title="Scene change since last scan">
+                          <div
+                            className={`h-full ${motionLevel >= MOTION_THRESHOLDS[sensitivity] ? 'bg-pink-400' : 'bg-emerald-400'}`}
+                            style={{ width: `${Math.min(motionLevel / MOTION_THRESHOLDS[sensitivity] * 100, 100)}%` }}
+                          />
+                        </div>
+                      )}
+                      {(['low', 'medium', 'high'] as MotionSensitivity[]).map(level => (
+                        <button
+                          key={level}
+                          onClick={() => setSensitivity(level)}
+                          className={`px-2 py-1 rounded text-xs transition capitalize ${
+                            sensitivity === level
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                          }`}
+                        >
+                          {level}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-purple-200">Check every:</span>
+                  <span className="text-purple-200">{triggerMode === 'motion' ? 'Scan at least every:' : 'Check every:'}</span>
                   <div className="flex gap-1">
-                    {[10, 30, 60, 120].map(sec => (
+                    {INTERVAL_OPTIONS[triggerMode].map(sec => (
                       <button
                         key={sec}
                         onClick={() => setAnalysisInterval(sec)}
@@ -364,9 +883,23 @@ export default function HummiGuardAI() {
                 <h3 className="text-white font-semibold mb-2 flex items-center gap-2 text-sm">
                   <span>🧠</span> Last AI Analysis
                   <span className="text-xs text-gray-400">({lastAnalysis.timestamp})</span>
+                  {lastAnalysis.id && (
+                    <button
+                      onClick={() => setCorrectingReading(lastAnalysis.id ?? null)}
+                      className="ml-auto text-xs font-normal text-pink-300 hover:text-pink-200 underline"
+                      title="Record the actual level to measure model accuracy"
+                    >
+                      ✏️ Correct
+                    </button>
+                  )}
                 </h3>
                 <div className="bg-black/30 rounded-lg p-3 text-sm">
                   <div className="text-purple-200 mb-2">&quot;{lastAnalysis.description}&quot;</div>
+                  {(lastAnalysis.quality?.shift ?? 0) > QUALITY_LIMITS.maxShift && (
+                    <div className="text-amber-300 text-xs mb-2">
+                      📷 The camera moved since the last scan; check the calibration
+                    </div>
+                  )}
                   <div className="flex gap-4 text-xs">
                     <span className="text-gray-400">
                       Confidence: <span className={getConfidenceColor(lastAnalysis.confidence)}>{lastAnalysis.confidence}</span>
@@ -374,6 +907,19 @@ export default function HummiGuardAI() {
                     <span className="text-gray-400">
                       Feeder visible: {lastAnalysis.feeder_visible ? '✅' : '❌'}
                     </span>
+                    {lastAnalysis.smoothed_level != null && lastAnalysis.smoothed_level !== lastAnalysis.level && (
+                      <span className="text-gray-400" title="Raw model reading before smoothing">
+                        Raw: {lastAnalysis.level}%
+                      </span>
+                    )}
+                    {lastAnalysis.birds?.count > 0 && (
+                      <span className="text-gray-400">
+                        🐦 {lastAnalysis.birds.count}
+                        {lastAnalysis.birds.species && (
+                          <> · {lastAnalysis.birds.species} <span className={getConfidenceColor(lastAnalysis.birds.species_confidence || 'low')}>({lastAnalysis.birds.species_confidence})</span></>
+                        )}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -436,6 +982,11 @@ export default function HummiGuardAI() {
               <div className="text-white font-bold text-sm">
                 {alertActive ? 'REFILL NEEDED' : nectarLevel !== null ? 'Levels OK' : 'Monitoring...'}
               </div>
+              {forecast && (
+                <div className="text-xs text-purple-200 mt-1" title={`Using ${forecast.rate_per_hour}%/hour over ${forecast.based_on} readings`}>
+                  ⏱️ {describeForecast(forecast)}
+                </div>
+              )}
             </div>
 
             {/* Threshold Setting */}
@@ -454,10 +1005,77 @@ export default function HummiGuardAI() {
               </div>
             </div>
 
+            {/* Feeder Care */}
+            <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+              <h3 className="text-white font-semibold mb-2 text-sm">🧴 Feeder Care</h3>
+              {nectarAge?.stale && (
+                <div className="bg-orange-500/30 border border-orange-500 text-orange-100 rounded-lg px-2 py-1 text-xs mb-2">
+                  ⚠️ Nectar is {Math.floor(nectarAge.hours / 24)} days old — replace it
+                </div>
+              )}
+              <div className="text-xs text-gray-400 mb-2">
+                {lastRefill
+                  ? `Last refill ${new Date(lastRefill.timestamp).toLocaleString()}${lastRefill.source === 'auto' ? ' (detected)' : ''}`
+                  : 'No refill recorded yet'}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => logFeederEvent('refill')}
+                  disabled={!activeFeederId}
+                  className="flex-1 bg-pink-500/80 hover:bg-pink-500 disabled:opacity-50 text-white text-xs font-semibold py-1.5 rounded-lg transition"
+                >
+                  I refilled it
+                </button>
+                <button
+                  onClick={() => logFeederEvent('cleaning')}
+                  disabled={!activeFeederId}
+                  className="flex-1 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white text-xs font-semibold py-1.5 rounded-lg transition"
+                >
+                  I cleaned it
+                </button>
+              </div>
+            </div>
+
+            <SchedulePanel
+              feeder={activeFeeder}
+              status={schedule}
+              onSaved={(updated) => setFeeders(prev => prev.map(f => f.id === updated.id ? { ...f, ...updated } : f))}
+            />
+
+            {/* Push Notifications */}
+            {pushStatus !== 'unsupported' && pushStatus !== 'unconfigured' && (
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+                <button
+                  onClick={togglePush}
+                  disabled={pushStatus === 'denied'}
+                  className={`w-full py-2 rounded-xl text-sm font-semibold transition disabled:opacity-50 ${
+                    pushStatus === 'on'
+                      ? 'bg-emerald-500/30 text-emerald-200 hover:bg-emerald-500/40'
+                      : 'bg-white/10 text-white hover:bg-white/20'
+                  }`}
+                >
+                  {pushStatus === 'on' ? '🔔 Alerts on this device' : '🔕 Notify this device'}
+                </button>
+                {pushStatus === 'denied' && (
+                  <div className="text-center text-xs text-gray-400 mt-1">
+                    Notifications are blocked in browser settings
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* History */}
             {history.length > 0 && (
               <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
-                <h3 className="text-white font-semibold mb-2 text-sm">📊 Recent Readings</h3>
+                <h3 className="text-white font-semibold mb-2 text-sm flex items-center justify-between">
+                  <span>📊 Recent Readings</span>
+                  <Link
+                    href={`/history${activeFeederId ? `?feeder=${encodeURIComponent(activeFeederId)}` : ''}`}
+                    className="text-xs font-normal text-pink-300 hover:text-pink-200 underline"
+                  >
+                    Chart →
+                  </Link>
+                </h3>
                 <div className="space-y-1 max-h-24 overflow-y-auto">
                   {history.slice().reverse().slice(0, 5).map((h, i) => (
                     <div key={i} className="flex justify-between text-xs bg-black/20 rounded px-2 py-1">
@@ -470,6 +1088,8 @@ export default function HummiGuardAI() {
                 </div>
               </div>
             )}
+
+            <VisitorsPanel feederId={activeFeederId} refreshKey={readingCount} />
           </div>
         </div>
 
@@ -489,6 +1109,10 @@ export default function HummiGuardAI() {
           HummiGuard AI — Real AI vision for happy hummingbirds 🐦✨
         </div>
       </div>
+
+      {correctingReading && (
+        <SnapshotViewer readingId={correctingReading} onClose={() => setCorrectingReading(null)} />
+      )}
     </div>
   )
 }
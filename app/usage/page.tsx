@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { UsageBudget, UsageDay } from '@/lib/types'
+
+interface UsageTotals {
+  calls: number
+  failures: number
+  failure_rate: number | null
+  input_tokens: number
+  output_tokens: number
+  avg_latency_ms: number | null
+  cost_usd: number
+  outcomes: Record<string, number>
+}
+
+interface UsageSummary {
+  days: UsageDay[]
+  totals: UsageTotals
+  budget: UsageBudget
+}
+
+const RANGES = [7, 30, 90]
+
+function formatCost(usd: number): string {
+  return usd < 10 ? `$${usd.toFixed(3)}` : `$${usd.toFixed(2)}`
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30)
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams({
+      from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      utc_offset: String(-new Date().getTimezoneOffset()),
+    })
+    fetch(`/hummiguard-ai/api/usage?${params}`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load usage')
+        setSummary(data)
+        setError(null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'))
+  }, [days])
+
+  const peak = summary ? Math.max(...summary.days.map(d => d.calls), 1) : 1
+  const budget = summary?.budget
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-3">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <h1 className="text-2xl font-bold text-white mb-1 flex items-center justify-center gap-2">
+            <span className="text-3xl">📊</span>
+            Usage &amp; Cost
+          </h1>
+          <Link href="/dashboard" className="text-xs text-pink-300 hover:text-pink-200 underline">
+            ← All feeders
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/90 text-white px-3 py-2 rounded-xl mb-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        {budget?.paused && (
+          <div className="bg-gradient-to-r from-red-600 to-orange-500 text-white p-3 rounded-xl mb-3 text-sm">
+            <div className="font-bold">Monitoring paused</div>
+            <div className="text-xs opacity-90">
+              The monthly budget of {formatCost(budget.budget_usd ?? 0)} is used up.
+              Scanning resumes {budget.resumes_at ? new Date(budget.resumes_at).toLocaleDateString() : 'next month'}.
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-center gap-2 mb-3">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition ${
+                days === range ? 'bg-purple-500 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+              }`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+
+        {summary && (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3 text-center">
+                <div className="text-xs text-purple-200">Calls</div>
+                <div className="text-2xl font-bold text-white">{summary.totals.calls}</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3 text-center">
+                <div className="text-xs text-purple-200">Avg latency</div>
+                <div className="text-2xl font-bold text-white">
+                  {summary.totals.avg_latency_ms !== null ? `${(summary.totals.avg_latency_ms / 1000).toFixed(1)}s` : '—'}
+                </div>
+              </div>
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3 text-center">
+                <div className="text-xs text-purple-200">Failure rate</div>
+                <div className={`text-2xl font-bold ${(summary.totals.failure_rate ?? 0) > 0.1 ? 'text-orange-300' : 'text-white'}`}>
+                  {summary.totals.failure_rate !== null ? `${Math.round(summary.totals.failure_rate * 100)}%` : '—'}
+                </div>
+              </div>
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3 text-center">
+                <div className="text-xs text-purple-200">Estimated cost</div>
+                <div className="text-2xl font-bold text-white">{formatCost(summary.totals.cost_usd)}</div>
+              </div>
+            </div>
+
+            {/* Budget */}
+            {budget && budget.budget_usd !== null && (
+              <div className="bg-white/10 backdrop-blur rounded-2xl p-3 mb-3">
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-purple-200">This month</span>
+                  <span className="text-white">
+                    {formatCost(budget.month_to_date_usd)} of {formatCost(budget.budget_usd)}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={budget.paused ? 'h-full bg-red-500' : 'h-full bg-gradient-to-r from-purple-500 to-pink-500'}
+                    style={{ width: `${Math.min(budget.month_to_date_usd / budget.budget_usd * 100, 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Calls per day */}
+            <div className="bg-white/10 backdrop-blur rounded-2xl p-3">
+              <h3 className="text-white font-semibold mb-2 text-sm flex items-center justify-between">
+                <span>Calls per day</span>
+                <span className="text-xs text-gray-400">
+                  {summary.totals.input_tokens.toLocaleString()} in / {summary.totals.output_tokens.toLocaleString()} out tokens
+                </span>
+              </h3>
+              <div className="flex items-end gap-px h-32 bg-black/20 rounded px-1 pt-1">
+                {summary.days.map(day => (
+                  <div
+                    key={day.date}
+                    className="flex-1 flex flex-col justify-end h-full"
+                    title={`${day.date}: ${day.calls} calls, ${day.failures} failed, ${formatCost(day.cost_usd)}${
+                      day.avg_latency_ms !== null ? `, avg ${(day.avg_latency_ms / 1000).toFixed(1)}s` : ''
+                    }`}
+                  >
+                    {day.failures > 0 && (
+                      <div className="bg-orange-400" style={{ height: `${day.failures / peak * 100}%` }} />
+                    )}
+                    <div
+                      className={day.calls === 0 ? 'bg-gray-700' : 'bg-gradient-to-t from-purple-600 to-pink-400 rounded-t-sm'}
+                      style={{ height: day.calls === 0 ? '1px' : `${(day.calls - day.failures) / peak * 100}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+                <span>{summary.days[0]?.date}</span>
+                <span>today</span>
+              </div>
+              <div className="flex gap-3 text-[10px] text-gray-400 mt-2">
+                <span><span className="inline-block w-2 h-2 bg-pink-400 rounded-sm mr-1" />succeeded</span>
+                <span><span className="inline-block w-2 h-2 bg-orange-400 rounded-sm mr-1" />failed</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -91,6 +91,7 @@ log_message "STEP" "Uploading files to production server..."
 rsync -avz --delete \
   --exclude 'node_modules' \
   --exclude '.git' \
+  --exclude 'data' \
   --exclude '.env' \
   --exclude '.env.local' \
   --exclude '.env.production' \
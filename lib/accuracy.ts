@@ -0,0 +1,136 @@
+import { correctedReadings } from './readings'
+import { getSnapshot, readSnapshotImage } from './snapshots'
+import type { AccuracyBucket, AccuracyReport, Confidence, FrameCalibration, Reading, ReadingCorrection } from './types'
+
+/**
+ * Human corrections as ground truth. A correction records what the level
+ * and feeder_visible flag should have been, next to the model's own values,
+ * and the corrected readings double as a labeled dataset for checking
+ * prompt or model changes.
+ */
+
+type CorrectionValidation =
+  | { ok: true, value: Pick<ReadingCorrection, 'level' | 'feeder_visible' | 'note'> }
+  | { ok: false, error: string }
+
+export function validateCorrection(body: unknown): CorrectionValidation {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, error: 'correction must be an object' }
+  }
+
+  const input = body as Record<string, unknown>
+  if (typeof input.feeder_visible !== 'boolean') {
+    return { ok: false, error: 'feeder_visible must be true or false' }
+  }
+  if (input.feeder_visible && (typeof input.level !== 'number' || input.level < 0 || input.level > 100)) {
+    return { ok: false, error: 'level must be a number from 0 to 100 when the feeder is visible' }
+  }
+  if (input.note !== undefined && (typeof input.note !== 'string' || input.note.length > 500)) {
+    return { ok: false, error: 'note must be a string of at most 500 characters' }
+  }
+
+  return {
+    ok: true,
+    value: {
+      level: input.feeder_visible ? Math.round(input.level as number) : -1,
+      feeder_visible: input.feeder_visible,
+      note: typeof input.note === 'string' ? input.note.trim() : '',
+    },
+  }
+}
+
+function summarize(readings: Reading[]): AccuracyBucket {
+  const agreeing = readings.filter(r => r.feeder_visible === r.correction?.feeder_visible)
+  const bothVisible = readings.filter(r => r.feeder_visible && r.level >= 0 && r.correction?.feeder_visible)
+  const totalError = bothVisible.reduce((sum, r) => sum + Math.abs(r.level - (r.correction as ReadingCorrection).level), 0)
+
+  return {
+    count: readings.length,
+    mae: bothVisible.length > 0 ? Math.round(totalError / bothVisible.length * 10) / 10 : null,
+    visibility_agreement: readings.length > 0 ? agreeing.length / readings.length : null,
+  }
+}
+
+function groupBy<K extends string>(readings: Reading[], key: (r: Reading) => K): Record<K, AccuracyBucket> {
+  const groups = new Map<K, Reading[]>()
+  for (const reading of readings) {
+    const k = key(reading)
+    groups.set(k, [...(groups.get(k) || []), reading])
+  }
+  const buckets = {} as Record<K, AccuracyBucket>
+  for (const [k, group] of groups) buckets[k] = summarize(group)
+  return buckets
+}
+
+// Model error against human corrections, overall and per feeder and confidence
+export async function accuracyReport(feederId?: string): Promise<AccuracyReport> {
+  const readings = await correctedReadings(feederId)
+  return {
+    overall: summarize(readings),
+    by_feeder: groupBy(readings, r => r.feeder_id),
+    by_confidence: groupBy<Confidence>(readings, r => r.confidence),
+  }
+}
+
+// One labeled example: the archived frame, what the model said and the human label
+export interface DatasetExample {
+  reading_id: string
+  feeder_id: string
+  timestamp: string
+  media_type: string
+  // Base64 image, present when images are inlined
+  image?: string
+  image_url: string
+  // Lines the frame was analyzed with, so it can be replayed with the same prompt
+  calibration: FrameCalibration | null
+  model: {
+    level: number
+    feeder_visible: boolean
+    confidence: Confidence
+    description: string
+  }
+  label: {
+    level: number
+    feeder_visible: boolean
+    note: string
+  }
+}
+
+// Corrected readings that still have their frame archived, oldest first
+export async function labeledDataset(feederId: string | undefined, inlineImages: boolean): Promise<DatasetExample[]> {
+  const examples: DatasetExample[] = []
+  for (const reading of await correctedReadings(feederId)) {
+    const snapshot = await getSnapshot(reading.id)
+    const correction = reading.correction as ReadingCorrection
+    if (!snapshot) continue
+
+    let image: string | undefined
+    if (inlineImages) {
+      const bytes = await readSnapshotImage(snapshot, 'full')
+      if (!bytes) continue
+      image = bytes.toString('base64')
+    }
+
+    examples.push({
+      reading_id: reading.id,
+      feeder_id: reading.feeder_id,
+      timestamp: reading.timestamp,
+      media_type: snapshot.media_type,
+      image,
+      image_url: `/hummiguard-ai/api/snapshots/${reading.id}/image?size=full`,
+      calibration: snapshot.calibration ?? null,
+      model: {
+        level: reading.level,
+        feeder_visible: reading.feeder_visible,
+        confidence: reading.confidence,
+        description: reading.description,
+      },
+      label: {
+        level: correction.level,
+        feeder_visible: correction.feeder_visible,
+        note: correction.note,
+      },
+    })
+  }
+  return examples
+}
@@ -0,0 +1,276 @@
+import { lastRefill } from './events'
+import { getNotificationChannels, Notification, notify } from './notify'
+import { scheduleStatus } from './schedule'
+import { createId, readDocument, updateDocument } from './store'
+import type { AlertEvent, AlertKind, AlertStatus, Feeder, FeederEvent, NectarAge, Reading } from './types'
+
+/**
+ * Server-side low nectar alerting, driven by the smoothed level. A feeder
+ * enters the alert state once ALERT_CONFIRM_READINGS consecutive readings
+ * are below its threshold and only leaves it once the level is back above
+ * threshold + ALERT_HYSTERESIS, so a level hovering around the threshold
+ * does not flap. Notifications for a feeder are additionally
+ * rate limited to one per ALERT_COOLDOWN_MINUTES.
+ *
+ * Independently of the level, a nectar age warning goes out once per refill
+ * when the nectar has been in the feeder longer than its maximum age.
+ *
+ * Silencing the alarm sound is stored here too, so every open camera page and
+ * monitor agrees on it; it lasts until the feeder recovers.
+ *
+ * During a feeder's quiet hours transitions are still recorded but nothing is
+ * sent: a low nectar alert goes out with the first reading after they end, if
+ * the feeder is still low, and a nectar age warning on the first check.
+ */
+
+const STATE_DOCUMENT = 'alert-state'
+const EVENTS_DOCUMENT = 'alerts'
+
+const DEFAULT_HYSTERESIS = 5
+const DEFAULT_CONFIRM_READINGS = 3
+const DEFAULT_COOLDOWN_MINUTES = 60
+const DEFAULT_NECTAR_MAX_AGE_HOURS = 72
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface FeederAlertState {
+  active: boolean
+  // Consecutive readings below threshold while not yet alerting
+  below_count: number
+  // Whether the current (or last) low alert actually went out
+  notified: boolean
+  last_notified_at: string | null
+  // Refill event the last nectar age warning was sent for
+  nectar_age_warned_for?: string
+  // Alarm sound silenced for the current alert
+  muted?: boolean
+  // The low alert came up during quiet hours and hasn't been sent yet
+  held?: boolean
+}
+
+type AlertStates = Record<string, FeederAlertState>
+
+const INITIAL_STATE: FeederAlertState = { active: false, below_count: 0, notified: false, last_notified_at: null }
+
+function settings() {
+  return {
+    hysteresis: Number(process.env.ALERT_HYSTERESIS ?? DEFAULT_HYSTERESIS),
+    confirmReadings: Math.max(Number(process.env.ALERT_CONFIRM_READINGS ?? DEFAULT_CONFIRM_READINGS), 1),
+    cooldownMs: Number(process.env.ALERT_COOLDOWN_MINUTES ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000,
+  }
+}
+
+export async function isAlertActive(feederId: string): Promise<boolean> {
+  const states = await readDocument<AlertStates>(STATE_DOCUMENT, {})
+  return states[feederId]?.active ?? false
+}
+
+function toStatus(feederId: string, state: FeederAlertState | undefined): AlertStatus {
+  return { feeder_id: feederId, active: state?.active ?? false, muted: state?.muted ?? false }
+}
+
+export async function alertStatus(feederId: string): Promise<AlertStatus> {
+  const states = await readDocument<AlertStates>(STATE_DOCUMENT, {})
+  return toStatus(feederId, states[feederId])
+}
+
+export async function setAlertMuted(feederId: string, muted: boolean): Promise<AlertStatus> {
+  const states = await updateDocument<AlertStates>(STATE_DOCUMENT, {}, current => ({
+    ...current,
+    [feederId]: { ...(current[feederId] || INITIAL_STATE), muted },
+  }))
+  return toStatus(feederId, states[feederId])
+}
+
+async function recordAlertEvent(event: Omit<AlertEvent, 'id'>): Promise<string> {
+  const id = createId()
+  await updateDocument<AlertEvent[]>(EVENTS_DOCUMENT, [], events => [...events, { id, ...event }])
+  return id
+}
+
+/**
+ * Send a notification in the background so a slow webhook or mail server
+ * doesn't hold up the scan, then correct the event's `notified` flag if no
+ * channel actually delivered it.
+ */
+function deliver(notification: Notification, eventId: string | null): void {
+  notify(notification)
+    .then(async results => {
+      if (!eventId || results.some(r => r.ok)) return
+      await updateDocument<AlertEvent[]>(EVENTS_DOCUMENT, [], events =>
+        events.map(e => e.id === eventId ? { ...e, notified: false } : e)
+      )
+    })
+    .catch(err => console.error('Notification error:', err))
+}
+
+export async function listAlertEvents(feederId?: string): Promise<AlertEvent[]> {
+  const events = await readDocument<AlertEvent[]>(EVENTS_DOCUMENT, [])
+  return events.filter(e => !feederId || e.feeder_id === feederId)
+}
+
+// Add alert events from an export, skipping ids already stored. Returns how many were added
+export async function importAlertEvents(events: AlertEvent[]): Promise<number> {
+  let added = 0
+  await updateDocument<AlertEvent[]>(EVENTS_DOCUMENT, [], current => {
+    const known = new Set(current.map(e => e.id))
+    const fresh = events.filter(e => !known.has(e.id))
+    added = fresh.length
+    return [...current, ...fresh]
+  })
+  return added
+}
+
+// Work out the state transition for a reading without side effects. `late` marks
+// a low alert held back by quiet hours, which was recorded when it happened
+function transition(
+  state: FeederAlertState,
+  level: number,
+  threshold: number,
+  now: number,
+  quiet: boolean
+): { next: FeederAlertState, kind: AlertKind | null, send: boolean, late?: boolean } {
+  const { hysteresis, cooldownMs, confirmReadings } = settings()
+
+  if (!state.active) {
+    const belowCount = level < threshold ? (state.below_count ?? 0) + 1 : 0
+    if (belowCount < confirmReadings) {
+      return { next: { ...state, below_count: belowCount }, kind: null, send: false }
+    }
+
+    const lastSent = state.last_notified_at ? Date.parse(state.last_notified_at) : -Infinity
+    const send = !quiet && now - lastSent >= cooldownMs
+    return {
+      next: {
+        ...state,
+        active: true,
+        below_count: belowCount,
+        notified: send,
+        last_notified_at: send ? new Date(now).toISOString() : state.last_notified_at,
+        held: quiet,
+      },
+      kind: 'low_nectar',
+      send,
+    }
+  }
+
+  if (state.active && level >= threshold + hysteresis) {
+    return {
+      next: { ...state, active: false, below_count: 0, muted: false, held: false },
+      kind: 'recovered',
+      send: state.notified && !quiet,
+    }
+  }
+
+  if (state.active && state.held && !quiet) {
+    return {
+      next: { ...state, notified: true, last_notified_at: new Date(now).toISOString(), held: false },
+      kind: 'low_nectar',
+      send: true,
+      late: true,
+    }
+  }
+
+  return { next: state, kind: null, send: false }
+}
+
+/**
+ * Feed a new reading through the alert state machine, record any transition
+ * and notify the configured channels in the background. Returns whether the feeder is in the
+ * alert state afterwards.
+ */
+export async function evaluateReading(feeder: Feeder, reading: Reading): Promise<boolean> {
+  if (!reading.feeder_visible || reading.level < 0) {
+    return isAlertActive(feeder.id)
+  }
+  const level = reading.smoothed_level ?? reading.level
+
+  // Quiet hours are about when people get woken, so they follow the clock rather than the capture time
+  const { quiet } = scheduleStatus(feeder)
+  let outcome: ReturnType<typeof transition> | undefined
+  const states = await updateDocument<AlertStates>(STATE_DOCUMENT, {}, current => {
+    outcome = transition(current[feeder.id] || INITIAL_STATE, level, feeder.threshold, Date.parse(reading.timestamp), quiet)
+    return { ...current, [feeder.id]: outcome.next }
+  })
+
+  const channels = getNotificationChannels().length
+  let eventId: string | null = null
+  if (outcome?.kind && !outcome.late) {
+    eventId = await recordAlertEvent({
+      feeder_id: feeder.id,
+      kind: outcome.kind,
+      level,
+      reading_id: reading.id,
+      notified: outcome.send && channels > 0,
+      timestamp: reading.timestamp,
+    })
+  }
+
+  if (outcome?.kind && outcome.send && channels > 0) {
+    deliver({
+      kind: outcome.kind,
+      title: outcome.kind === 'low_nectar' ? `LOW NECTAR at ${feeder.name}` : `${feeder.name} is back to normal`,
+      message: outcome.kind === 'low_nectar'
+        ? `${feeder.name} is at ${level}%, below its ${feeder.threshold}% threshold. Time to refill!`
+        : `${feeder.name} is back up to ${level}%.`,
+      feeder,
+      reading,
+      timestamp: reading.timestamp,
+    }, eventId)
+  }
+
+  return states[feeder.id].active
+}
+
+export function nectarMaxAgeHours(feeder: Feeder): number {
+  return feeder.nectar_max_age_hours ?? Number(process.env.NECTAR_MAX_AGE_HOURS ?? DEFAULT_NECTAR_MAX_AGE_HOURS)
+}
+
+// Age of the nectar since the last refill, or null if no refill is on record
+export function nectarAge(feeder: Feeder, refill: FeederEvent | null, now = Date.now()): NectarAge | null {
+  if (!refill) return null
+  const hours = (now - Date.parse(refill.timestamp)) / HOUR_MS
+  const maxHours = nectarMaxAgeHours(feeder)
+  return {
+    hours: Math.round(hours * 10) / 10,
+    max_hours: maxHours,
+    stale: hours >= maxHours,
+  }
+}
+
+// Compute the nectar age and send the stale warning if it is due
+export async function checkNectarAge(feeder: Feeder, now = new Date()): Promise<NectarAge | null> {
+  const refill = await lastRefill(feeder.id)
+  const age = nectarAge(feeder, refill, now.getTime())
+  if (!refill || !age?.stale || scheduleStatus(feeder, now).quiet) return age
+
+  let due = false
+  await updateDocument<AlertStates>(STATE_DOCUMENT, {}, current => {
+    const state = current[feeder.id] || INITIAL_STATE
+    if (state.nectar_age_warned_for === refill.id) return current
+    due = true
+    return { ...current, [feeder.id]: { ...state, nectar_age_warned_for: refill.id } }
+  })
+  if (!due) return age
+
+  const days = Math.round(age.hours / 24 * 10) / 10
+  const channels = getNotificationChannels().length
+  const eventId = await recordAlertEvent({
+    feeder_id: feeder.id,
+    kind: 'nectar_age',
+    level: null,
+    reading_id: null,
+    notified: channels > 0,
+    timestamp: now.toISOString(),
+  })
+  if (channels === 0) return age
+  deliver({
+    kind: 'nectar_age',
+    title: `Change the nectar at ${feeder.name}`,
+    message: `The nectar in ${feeder.name} was last refilled ${days} days ago. Replace it with fresh nectar to keep it from spoiling.`,
+    feeder,
+    timestamp: now.toISOString(),
+  }, eventId)
+
+  return age
+}
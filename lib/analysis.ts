@@ -0,0 +1,191 @@
+import { levelFromLiquidLine } from './calibration'
+import { activePromptVersion, buildAnalysisPrompt, PromptVersion } from './prompt'
+import type { AnalysisResult, BirdSighting, Confidence, FrameCalibration } from './types'
+import { ImageMediaType, VisionMessage, VisionProvider, VisionProviderError } from './vision'
+
+export type AnalysisErrorCode = 'unparseable' | 'invalid_schema' | 'upstream_error'
+
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode
+  status: number
+
+  constructor(code: AnalysisErrorCode, message: string, status = 502) {
+    super(message)
+    this.name = 'AnalysisError'
+    this.code = code
+    this.status = status
+  }
+}
+
+type Validation =
+  | { ok: true, result: AnalysisResult }
+  | { ok: false, problems: string[] }
+
+const CONFIDENCES: Confidence[] = ['high', 'medium', 'low']
+
+const DEFAULT_MAX_RETRIES = 2
+
+// Corrective retries after the first attempt; a missing or malformed setting uses the default
+function maxRetries(): number {
+  const retries = Number(process.env.ANALYSIS_MAX_RETRIES)
+  return process.env.ANALYSIS_MAX_RETRIES && Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES
+}
+
+const MAX_BIRDS = 50
+
+const NO_BIRDS: BirdSighting = { count: 0, species: null, species_confidence: null }
+
+// Bird info is optional: replies and fixtures from before it existed mean no birds
+function validateBirds(value: unknown, problems: string[]): BirdSighting | null {
+  if (value === undefined) return { ...NO_BIRDS }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    problems.push('"birds" must be an object with "count", "species" and "species_confidence"')
+    return null
+  }
+
+  const birds = value as Record<string, unknown>
+  const before = problems.length
+
+  if (typeof birds.count !== 'number' || !Number.isFinite(birds.count) || birds.count < 0) {
+    problems.push('"birds.count" must be a non-negative number')
+  }
+  if (birds.species !== null && typeof birds.species !== 'string') {
+    problems.push('"birds.species" must be a string or null')
+  }
+  if (birds.species_confidence !== null && !CONFIDENCES.includes(birds.species_confidence as Confidence)) {
+    problems.push('"birds.species_confidence" must be "high", "medium", "low" or null')
+  }
+  if (problems.length > before) return null
+
+  const count = Math.min(Math.round(birds.count as number), MAX_BIRDS)
+  const species = count > 0 && typeof birds.species === 'string' && birds.species.trim()
+    ? birds.species.trim()
+    : null
+
+  return {
+    count,
+    species,
+    species_confidence: species ? (birds.species_confidence as Confidence | null) : null,
+  }
+}
+
+/**
+ * Check a parsed model reply. With a calibration, a usable "liquid_line"
+ * takes precedence over the model's own level estimate.
+ */
+export function validateAnalysis(value: unknown, calibration?: FrameCalibration | null): Validation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, problems: ['response must be a JSON object'] }
+  }
+
+  const candidate = value as Record<string, unknown>
+  const problems: string[] = []
+
+  if (typeof candidate.feeder_visible !== 'boolean') {
+    problems.push('"feeder_visible" must be true or false')
+  }
+  if (typeof candidate.level !== 'number' || !Number.isFinite(candidate.level)) {
+    problems.push('"level" must be a number from 0 to 100, or -1 when no feeder is visible')
+  }
+  if (!CONFIDENCES.includes(candidate.confidence as Confidence)) {
+    problems.push('"confidence" must be one of "high", "medium" or "low"')
+  }
+  if (typeof candidate.description !== 'string' || !candidate.description.trim()) {
+    problems.push('"description" must be a non-empty string')
+  }
+
+  const birds = validateBirds(candidate.birds, problems)
+
+  if (problems.length > 0 || !birds) return { ok: false, problems }
+
+  const visible = candidate.feeder_visible as boolean
+  const liquidLine = candidate.liquid_line
+  const level = calibration && typeof liquidLine === 'number' && liquidLine >= 0 && liquidLine <= 1
+    ? levelFromLiquidLine(calibration, liquidLine)
+    : candidate.level as number
+
+  return {
+    ok: true,
+    result: {
+      level: visible ? Math.round(Math.min(Math.max(level, 0), 100)) : -1,
+      confidence: candidate.confidence as Confidence,
+      description: (candidate.description as string).trim(),
+      feeder_visible: visible,
+      birds,
+    },
+  }
+}
+
+// Pull the outermost {...} out of the model text, or undefined if there is none
+function extractJson(text: string): unknown {
+  const jsonMatch = text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) return undefined
+  try {
+    return JSON.parse(jsonMatch[0])
+  } catch {
+    return undefined
+  }
+}
+
+function correction(problems: string[]): string {
+  return `Your previous reply could not be used:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Reply again with ONLY the corrected JSON object in the exact format requested.`
+}
+
+/**
+ * Ask the provider for a reading and validate it. Invalid replies are sent
+ * back with a corrective message up to ANALYSIS_MAX_RETRIES times before
+ * giving up with the code of the last failure. Uses the active prompt
+ * version unless one is given.
+ */
+export async function analyzeImage(
+  provider: VisionProvider,
+  image: string,
+  mediaType: ImageMediaType,
+  calibration?: FrameCalibration | null,
+  promptVersion: PromptVersion = activePromptVersion()
+): Promise<AnalysisResult> {
+  const prompt = buildAnalysisPrompt(calibration, promptVersion)
+  const settings = {
+    model: promptVersion.model,
+    maxTokens: promptVersion.max_tokens,
+    temperature: promptVersion.temperature,
+  }
+  const retries = maxRetries()
+  const followUps: VisionMessage[] = []
+  let failure: AnalysisError | null = null
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let text: string
+    try {
+      ({ text } = await provider.analyze({ image, mediaType, prompt, followUps, ...settings }))
+    } catch (err) {
+      if (err instanceof VisionProviderError) {
+        throw new AnalysisError('upstream_error', err.message, err.status)
+      }
+      throw err
+    }
+
+    const parsed = extractJson(text)
+    let problems: string[]
+    if (parsed === undefined) {
+      failure = new AnalysisError('unparseable', 'Model response did not contain valid JSON')
+      problems = ['it did not contain a valid JSON object']
+    } else {
+      const validation = validateAnalysis(parsed, calibration)
+      if (validation.ok) return validation.result
+      failure = new AnalysisError('invalid_schema', `Model response failed validation: ${validation.problems.join('; ')}`)
+      problems = validation.problems
+    }
+
+    console.error(`Analysis attempt ${attempt + 1} rejected:`, problems, 'Response:', text)
+    followUps.push(
+      { role: 'assistant', text },
+      { role: 'user', text: correction(problems) }
+    )
+  }
+
+  throw failure ?? new AnalysisError('upstream_error', 'No analysis attempt was made')
+}
@@ -0,0 +1,69 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+
+/**
+ * Shared access tokens. HUMMIGUARD_ACCESS_TOKENS holds comma-separated
+ * `name:token` pairs; the name identifies the holder for rate limiting and
+ * quotas. Browsers carry the token in an httpOnly cookie set by the login
+ * page, scripts send it as `Authorization: Bearer <token>`. With no tokens
+ * configured, authentication is off and everyone shares one "anonymous"
+ * identity.
+ */
+
+export const SESSION_COOKIE = 'hummiguard_token'
+
+export const ANONYMOUS = 'anonymous'
+
+interface AccessToken {
+  name: string
+  digest: Buffer
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+function configuredTokens(): AccessToken[] {
+  return (process.env.HUMMIGUARD_ACCESS_TOKENS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':')
+      if (separator > 0) {
+        return { name: entry.slice(0, separator), digest: digest(entry.slice(separator + 1)) }
+      }
+      // Unnamed tokens are labeled from their hash so no part of the secret is shown
+      const tokenDigest = digest(entry)
+      return { name: `token-${tokenDigest.toString('hex').slice(0, 8)}`, digest: tokenDigest }
+    })
+}
+
+export function isAuthEnabled(): boolean {
+  return configuredTokens().length > 0
+}
+
+// Name of the holder of `token`, or null if it is not a valid token
+export function verifyToken(token: string): string | null {
+  const candidate = digest(token)
+  // Compare against every token so timing doesn't reveal which one matched
+  let match: string | null = null
+  for (const t of configuredTokens()) {
+    if (timingSafeEqual(candidate, t.digest)) match = t.name
+  }
+  return match
+}
+
+/**
+ * Who is making the request: the token holder's name, ANONYMOUS when
+ * authentication is off, or null when a token is required but missing or
+ * wrong.
+ */
+export function identify(request: NextRequest): string | null {
+  if (!isAuthEnabled()) return ANONYMOUS
+
+  const header = request.headers.get('authorization')
+  const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const token = bearer || request.cookies.get(SESSION_COOKIE)?.value
+  return token ? verifyToken(token) : null
+}
@@ -0,0 +1,87 @@
+import type { FeederCalibration, FrameCalibration } from './types'
+
+/**
+ * Reservoir calibration. The region of interest is stored as fractions of
+ * the full video frame; the empty and full lines are fractions of the ROI
+ * height measured from its top edge, so they stay valid for the cropped
+ * image the client sends to the analyze route.
+ */
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Smallest ROI side, as a fraction of the frame, that is worth cropping to
+const MIN_ROI_SIZE = 0.05
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+}
+
+export function validateFrameCalibration(value: unknown): FrameCalibration | null {
+  if (typeof value !== 'object' || value === null) return null
+  const c = value as Record<string, unknown>
+  if (!isFraction(c.empty_line) || !isFraction(c.full_line)) return null
+  // The empty line sits below the full line
+  if (c.empty_line - c.full_line < 0.05) return null
+  return { empty_line: c.empty_line, full_line: c.full_line }
+}
+
+export function validateCalibration(value: unknown): FeederCalibration | null {
+  const lines = validateFrameCalibration(value)
+  if (!lines) return null
+
+  const roi = (value as Record<string, unknown>).roi as Record<string, unknown> | undefined
+  if (typeof roi !== 'object' || roi === null) return null
+  const { x, y, width, height } = roi
+  if (!isFraction(x) || !isFraction(y) || !isFraction(width) || !isFraction(height)) return null
+  if (width < MIN_ROI_SIZE || height < MIN_ROI_SIZE || x + width > 1 + 1e-6 || y + height > 1 + 1e-6) return null
+
+  return { roi: { x, y, width, height }, ...lines }
+}
+
+// Fill level implied by where the liquid surface sits between the lines
+export function levelFromLiquidLine(calibration: FrameCalibration, liquidLine: number): number {
+  const span = calibration.empty_line - calibration.full_line
+  const level = (calibration.empty_line - liquidLine) / span * 100
+  return Math.round(Math.min(Math.max(level, 0), 100))
+}
+
+// Pixel rectangle of the ROI within a video frame
+export function cropRect(calibration: FeederCalibration, videoWidth: number, videoHeight: number): Rect {
+  return {
+    x: Math.round(calibration.roi.x * videoWidth),
+    y: Math.round(calibration.roi.y * videoHeight),
+    width: Math.max(Math.round(calibration.roi.width * videoWidth), 1),
+    height: Math.max(Math.round(calibration.roi.height * videoHeight), 1),
+  }
+}
+
+/**
+ * Mapping between positions on a video element shown with object-fit: cover
+ * and fractions of the underlying video frame, which may be partly cropped
+ * off screen.
+ */
+export function coverTransform(displayWidth: number, displayHeight: number, videoWidth: number, videoHeight: number) {
+  const scale = Math.max(displayWidth / videoWidth, displayHeight / videoHeight)
+  const offsetX = (displayWidth - videoWidth * scale) / 2
+  const offsetY = (displayHeight - videoHeight * scale) / 2
+
+  return {
+    toVideo(px: number, py: number): { x: number, y: number } {
+      return {
+        x: Math.min(Math.max((px - offsetX) / scale / videoWidth, 0), 1),
+        y: Math.min(Math.max((py - offsetY) / scale / videoHeight, 0), 1),
+      }
+    },
+    toDisplay(fx: number, fy: number): { x: number, y: number } {
+      return {
+        x: fx * videoWidth * scale + offsetX,
+        y: fy * videoHeight * scale + offsetY,
+      }
+    },
+  }
+}
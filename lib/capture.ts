@@ -0,0 +1,164 @@
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { cropRect } from './calibration'
+import type { FeederCalibration } from './types'
+
+/**
+ * Frame sources for the headless camera agent. Each source hands out one
+ * still image per call, or null when there is nothing new to analyze:
+ *
+ * - an HTTP snapshot or MJPEG stream URL (the first frame of the stream is used)
+ * - an RTSP URL, grabbed with ffmpeg
+ * - a directory a camera writes snapshots into; the newest file is used, or
+ *   with `loop` every file in name order, which suits a folder of samples
+ * - any shell command that writes an image to stdout
+ */
+
+export interface FrameSource {
+  description: string
+  next(): Promise<Buffer | null>
+}
+
+const FETCH_TIMEOUT_MS = 15_000
+const COMMAND_TIMEOUT_MS = 30_000
+const MAX_FRAME_BYTES = 20 * 1024 * 1024
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp']
+
+const JPEG_START = Buffer.from([0xff, 0xd8])
+const JPEG_END = Buffer.from([0xff, 0xd9])
+
+// Read an MJPEG stream until the first complete JPEG, then hang up
+async function firstMjpegFrame(body: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const reader = body.getReader()
+  let buffered = Buffer.alloc(0)
+  try {
+    while (buffered.length < MAX_FRAME_BYTES) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffered = Buffer.concat([buffered, value])
+
+      const start = buffered.indexOf(JPEG_START)
+      const end = start >= 0 ? buffered.indexOf(JPEG_END, start + 2) : -1
+      if (end >= 0) return buffered.subarray(start, end + 2)
+    }
+  } finally {
+    await reader.cancel().catch(() => {})
+  }
+  throw new Error('No JPEG frame found in the MJPEG stream')
+}
+
+function createHttpSource(url: string): FrameSource {
+  return {
+    description: url,
+
+    async next() {
+      const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+      if (!response.ok || !response.body) {
+        throw new Error(`Camera returned HTTP ${response.status}`)
+      }
+      if (response.headers.get('content-type')?.startsWith('multipart/')) {
+        return firstMjpegFrame(response.body)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    },
+  }
+}
+
+export function createCommandSource(command: string): FrameSource {
+  return {
+    description: `command: ${command}`,
+
+    next() {
+      return new Promise((resolve, reject) => {
+        execFile(
+          '/bin/sh',
+          ['-c', command],
+          { encoding: 'buffer', maxBuffer: MAX_FRAME_BYTES, timeout: COMMAND_TIMEOUT_MS },
+          (err, stdout, stderr) => {
+            if (err) {
+              reject(new Error(`Capture command failed: ${stderr.toString().trim() || err.message}`))
+            } else if (stdout.length === 0) {
+              reject(new Error('Capture command produced no image'))
+            } else {
+              resolve(stdout)
+            }
+          }
+        )
+      })
+    },
+  }
+}
+
+// Camera stream URL: http(s) snapshot or MJPEG, or rtsp via ffmpeg
+export function createUrlSource(url: string): FrameSource {
+  if (url.startsWith('rtsp://') || url.startsWith('rtsps://')) {
+    const quoted = `'${url.replace(/'/g, `'\\''`)}'`
+    return {
+      ...createCommandSource(`ffmpeg -loglevel error -rtsp_transport tcp -i ${quoted} -frames:v 1 -f image2 -c:v mjpeg pipe:1`),
+      description: url,
+    }
+  }
+  return createHttpSource(url)
+}
+
+export function createDirectorySource(dir: string, loop = false): FrameSource {
+  let lastSeen: string | null = null
+  let position = 0
+
+  const images = async () => {
+    const names = (await fs.readdir(dir)).filter(name => IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    return Promise.all(names.sort().map(async name => {
+      const file = path.join(dir, name)
+      return { file, mtime: (await fs.stat(file)).mtimeMs }
+    }))
+  }
+
+  return {
+    description: `${loop ? 'every image in' : 'newest image in'} ${dir}`,
+
+    async next() {
+      const files = await images()
+      if (files.length === 0) return null
+
+      if (loop) {
+        const { file } = files[position % files.length]
+        position++
+        return fs.readFile(file)
+      }
+
+      // Only a snapshot we haven't analyzed yet
+      const newest = files.reduce((a, b) => b.mtime > a.mtime ? b : a)
+      const key = `${newest.file}@${newest.mtime}`
+      if (key === lastSeen) return null
+      lastSeen = key
+      return fs.readFile(newest.file)
+    },
+  }
+}
+
+// Crop to the calibrated reservoir like the camera page does, as a JPEG
+export async function prepareFrame(frame: Buffer, calibration?: FeederCalibration | null): Promise<Buffer> {
+  const image = sharp(frame).autoOrient()
+  if (calibration) {
+    // The ROI was drawn on the upright frame
+    const { width, height } = (await image.metadata()).autoOrient
+    if (width && height) {
+      const crop = cropRect(calibration, width, height)
+      image.extract({
+        left: crop.x,
+        top: crop.y,
+        width: Math.min(crop.width, width - crop.x),
+        height: Math.min(crop.height, height - crop.y),
+      })
+    }
+  }
+  return image.jpeg({ quality: 80 }).toBuffer()
+}
+
+// Luminance of each pixel in a width x height copy, like sampleFrame on the camera page
+export async function sampleImage(image: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(image).greyscale().resize(width, height, { fit: 'fill' }).raw().toBuffer()
+}
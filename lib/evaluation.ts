@@ -0,0 +1,253 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { validateCorrection } from './accuracy'
+import { AnalysisError, analyzeImage } from './analysis'
+import { validateFrameCalibration } from './calibration'
+import { ImageError, prepareImage } from './image'
+import type { PromptVersion } from './prompt'
+import type { AnalysisResult, Confidence, FrameCalibration, ReadingCorrection } from './types'
+import { estimateCost, Meter, meterProvider } from './usage'
+import type { VisionProvider } from './vision'
+
+/**
+ * Offline evaluation of prompt versions against labeled frames. Each frame
+ * goes through the same preparation, prompt, retry and validation steps as
+ * the analyze route, and the results are scored against the human label:
+ * level error where both saw the feeder, visibility agreement, how often the
+ * reply could not be used, and per confidence how often the level was within
+ * EVALUATION_TOLERANCE points, which shows whether "high" really is better
+ * than "low".
+ */
+
+const TOLERANCE = 10
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp']
+
+export type EvaluationLabel = Pick<ReadingCorrection, 'level' | 'feeder_visible'>
+
+export interface LabeledImage {
+  name: string
+  // Base64 image, as the camera page would send it
+  image: string
+  label: EvaluationLabel
+  calibration?: FrameCalibration | null
+}
+
+export type EvaluationFailure = AnalysisError['code'] | ImageError['code']
+
+export interface EvaluationCase {
+  name: string
+  label: EvaluationLabel
+  result: AnalysisResult | null
+  failure: EvaluationFailure | null
+  attempts: number
+  latency_ms: number
+}
+
+export interface CalibrationBucket {
+  count: number
+  mae: number | null
+  // Share of readings within the tolerance, counting visibility mistakes as misses
+  within_tolerance: number
+}
+
+export interface EvaluationReport {
+  version: string
+  model: string | null
+  examples: number
+  mae: number | null
+  visibility_agreement: number | null
+  // Share of frames with no usable reply after all retries
+  parse_failure_rate: number
+  // Share of frames that needed at least one retry
+  retry_rate: number
+  upstream_errors: number
+  tolerance: number
+  by_confidence: Partial<Record<Confidence, CalibrationBucket>>
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  cases: EvaluationCase[]
+}
+
+function tolerance(): number {
+  return Number(process.env.EVALUATION_TOLERANCE ?? TOLERANCE)
+}
+
+function parseLabel(value: unknown, source: string): EvaluationLabel {
+  const validation = validateCorrection(value)
+  if (!validation.ok) {
+    throw new Error(`${source}: ${validation.error}`)
+  }
+  return { level: validation.value.level, feeder_visible: validation.value.feeder_visible }
+}
+
+// Images in a directory, each labeled by a JSON file of the same name
+async function loadDirectory(dir: string): Promise<LabeledImage[]> {
+  const files = (await fs.readdir(dir)).sort()
+  const examples: LabeledImage[] = []
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase()
+    if (!IMAGE_EXTENSIONS.includes(extension)) continue
+
+    const labelFile = path.join(dir, `${path.basename(file, path.extname(file))}.json`)
+    let raw: string
+    try {
+      raw = await fs.readFile(labelFile, 'utf8')
+    } catch {
+      console.warn(`Skipping ${file}: no label file`)
+      continue
+    }
+
+    const label = JSON.parse(raw) as Record<string, unknown>
+    const calibration = label.calibration === undefined ? null : validateFrameCalibration(label.calibration)
+    if (label.calibration !== undefined && !calibration) {
+      throw new Error(`${labelFile}: calibration must have empty_line below full_line, both between 0 and 1`)
+    }
+    examples.push({
+      name: file,
+      image: (await fs.readFile(path.join(dir, file))).toString('base64'),
+      label: parseLabel(label, labelFile),
+      calibration,
+    })
+  }
+  return examples
+}
+
+// Lines of a dataset export (GET /api/dataset?images=inline)
+async function loadDataset(file: string): Promise<LabeledImage[]> {
+  const lines = (await fs.readFile(file, 'utf8')).split('\n').filter(line => line.trim())
+  return lines.map((line, i) => {
+    const example = JSON.parse(line) as { reading_id?: string, image?: string, label?: unknown, calibration?: unknown }
+    const name = example.reading_id || `line ${i + 1}`
+    if (typeof example.image !== 'string') {
+      throw new Error(`${file}:${i + 1}: no inline image; export the dataset with images=inline`)
+    }
+    const calibrated = example.calibration !== undefined && example.calibration !== null
+    const calibration = calibrated ? validateFrameCalibration(example.calibration) : null
+    if (calibrated && !calibration) {
+      throw new Error(`${file}:${i + 1}: calibration must have empty_line below full_line, both between 0 and 1`)
+    }
+    return { name, image: example.image, label: parseLabel(example.label, `${file}:${i + 1}`), calibration }
+  })
+}
+
+// Labeled frames from a directory or a .jsonl dataset export
+export async function loadLabeledImages(source: string): Promise<LabeledImage[]> {
+  const stat = await fs.stat(source)
+  return stat.isDirectory() ? loadDirectory(source) : loadDataset(source)
+}
+
+async function evaluateExample(
+  provider: VisionProvider,
+  promptVersion: PromptVersion,
+  example: LabeledImage
+): Promise<{ evaluated: EvaluationCase, meter: Meter }> {
+  const meter = meterProvider(provider)
+  const started = Date.now()
+  let result: AnalysisResult | null = null
+  let failure: EvaluationFailure | null = null
+
+  try {
+    const prepared = await prepareImage(example.image)
+    result = await analyzeImage(meter.provider, prepared.data, prepared.mediaType, example.calibration, promptVersion)
+  } catch (err) {
+    if (err instanceof AnalysisError || err instanceof ImageError) {
+      failure = err.code
+    } else {
+      throw err
+    }
+  }
+
+  return {
+    evaluated: {
+      name: example.name,
+      label: example.label,
+      result,
+      failure,
+      attempts: meter.attempts,
+      latency_ms: Date.now() - started,
+    },
+    meter,
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function levelErrors(cases: EvaluationCase[]): number[] {
+  return cases
+    .filter(c => c.result?.feeder_visible && c.result.level >= 0 && c.label.feeder_visible)
+    .map(c => Math.abs((c.result as AnalysisResult).level - c.label.level))
+}
+
+function meanError(cases: EvaluationCase[]): number | null {
+  const errors = levelErrors(cases)
+  return errors.length > 0 ? round(errors.reduce((sum, e) => sum + e, 0) / errors.length) : null
+}
+
+function isWithin(c: EvaluationCase, limit: number): boolean {
+  if (!c.result || c.result.feeder_visible !== c.label.feeder_visible) return false
+  return !c.label.feeder_visible || Math.abs(c.result.level - c.label.level) <= limit
+}
+
+// Run every frame through one prompt version and score the results
+export async function evaluatePrompt(
+  provider: VisionProvider,
+  promptVersion: PromptVersion,
+  examples: LabeledImage[],
+  onCase?: (evaluated: EvaluationCase) => void
+): Promise<EvaluationReport> {
+  const limit = tolerance()
+  const cases: EvaluationCase[] = []
+  let model: string | null = null
+  let inputTokens = 0
+  let outputTokens = 0
+  let cost = 0
+
+  // One at a time, to stay inside upstream rate limits
+  for (const example of examples) {
+    const { evaluated, meter } = await evaluateExample(provider, promptVersion, example)
+    cases.push(evaluated)
+    model = meter.model ?? model
+    inputTokens += meter.input_tokens
+    outputTokens += meter.output_tokens
+    cost += estimateCost(meter.model, meter.input_tokens, meter.output_tokens)
+    onCase?.(evaluated)
+  }
+
+  const answered = cases.filter(c => c.result)
+  const byConfidence: Partial<Record<Confidence, CalibrationBucket>> = {}
+  for (const confidence of ['high', 'medium', 'low'] as Confidence[]) {
+    const group = answered.filter(c => c.result?.confidence === confidence)
+    if (group.length === 0) continue
+    byConfidence[confidence] = {
+      count: group.length,
+      mae: meanError(group),
+      within_tolerance: group.filter(c => isWithin(c, limit)).length / group.length,
+    }
+  }
+
+  const share = (n: number) => cases.length > 0 ? n / cases.length : 0
+
+  return {
+    version: promptVersion.version,
+    model,
+    examples: cases.length,
+    mae: meanError(answered),
+    visibility_agreement: answered.length > 0
+      ? answered.filter(c => c.result?.feeder_visible === c.label.feeder_visible).length / answered.length
+      : null,
+    parse_failure_rate: share(cases.filter(c => c.failure === 'unparseable' || c.failure === 'invalid_schema').length),
+    retry_rate: share(cases.filter(c => c.attempts > 1).length),
+    upstream_errors: cases.filter(c => c.failure === 'upstream_error').length,
+    tolerance: limit,
+    by_confidence: byConfidence,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: cost,
+    cases,
+  }
+}
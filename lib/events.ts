@@ -0,0 +1,84 @@
+import { previousReading } from './readings'
+import { createId, readDocument, updateDocument } from './store'
+import type { FeederEvent, FeederEventType, Reading } from './types'
+
+const DOCUMENT = 'events'
+
+// A rise this large between consecutive readings is treated as a refill
+export const REFILL_JUMP = 20
+
+// A manual refill this recent already accounts for a detected jump
+const MANUAL_OVERRIDE_MS = 2 * 60 * 60 * 1000
+
+export const EVENT_TYPES: FeederEventType[] = ['refill', 'cleaning']
+
+export interface EventQuery {
+  feederId?: string
+  from?: Date
+  to?: Date
+}
+
+// Events matching the query, newest first
+export async function listEvents(query: EventQuery = {}): Promise<FeederEvent[]> {
+  const from = query.from?.getTime() ?? -Infinity
+  const to = query.to?.getTime() ?? Infinity
+
+  const events = await readDocument<FeederEvent[]>(DOCUMENT, [])
+  return events
+    .filter(e => !query.feederId || e.feeder_id === query.feederId)
+    .filter(e => {
+      const t = Date.parse(e.timestamp)
+      return t >= from && t <= to
+    })
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+}
+
+export async function lastRefill(feederId: string): Promise<FeederEvent | null> {
+  const events = await listEvents({ feederId })
+  return events.find(e => e.type === 'refill') || null
+}
+
+export async function recordEvent(event: Omit<FeederEvent, 'id'>): Promise<FeederEvent> {
+  const saved: FeederEvent = { id: createId(), ...event }
+  await updateDocument<FeederEvent[]>(DOCUMENT, [], events => [...events, saved])
+  return saved
+}
+
+// Add events from an export, skipping ids already stored. Returns how many were added
+export async function importEvents(events: FeederEvent[]): Promise<number> {
+  let added = 0
+  await updateDocument<FeederEvent[]>(DOCUMENT, [], current => {
+    const known = new Set(current.map(e => e.id))
+    const fresh = events.filter(e => !known.has(e.id))
+    added = fresh.length
+    return [...current, ...fresh]
+  })
+  return added
+}
+
+/**
+ * Record an automatic refill when a reading jumps at least REFILL_JUMP
+ * points above the previous one, unless someone already logged a manual
+ * refill shortly before.
+ */
+export async function detectRefill(reading: Reading): Promise<FeederEvent | null> {
+  if (!reading.feeder_visible || reading.level < 0) return null
+
+  const previous = await previousReading(reading.feeder_id, reading.timestamp)
+  if (!previous || reading.level - previous.level < REFILL_JUMP) return null
+
+  const latest = await lastRefill(reading.feeder_id)
+  if (latest?.source === 'manual' &&
+      Date.parse(reading.timestamp) - Date.parse(latest.timestamp) < MANUAL_OVERRIDE_MS) {
+    return null
+  }
+
+  return recordEvent({
+    feeder_id: reading.feeder_id,
+    type: 'refill',
+    source: 'auto',
+    level_before: previous.level,
+    level_after: reading.level,
+    timestamp: reading.timestamp,
+  })
+}
@@ -0,0 +1,143 @@
+import { validateCalibration } from './calibration'
+import { configuredLocation, validateSchedule } from './schedule'
+import { createId, readDocument, updateDocument } from './store'
+import type { Feeder } from './types'
+
+const DOCUMENT = 'feeders'
+
+export const DEFAULT_FEEDER_ID = 'default'
+
+// Seeded on first run so a fresh install behaves like the single-feeder app
+const DEFAULT_FEEDER: Feeder = {
+  id: DEFAULT_FEEDER_ID,
+  name: 'My Feeder',
+  capacity_ml: 300,
+  threshold: 25,
+  location: '',
+  created_at: new Date(0).toISOString(),
+}
+
+export type FeederInput = Pick<Feeder, 'name' | 'capacity_ml' | 'threshold' | 'location' | 'nectar_max_age_hours' | 'calibration' | 'schedule'>
+
+type FeederValidation<T> =
+  | { ok: true, value: T }
+  | { ok: false, error: string }
+
+// Check a create (all fields) or update (any subset) payload
+export function validateFeederInput(body: unknown, partial: true): FeederValidation<Partial<FeederInput>>
+export function validateFeederInput(body: unknown, partial: false): FeederValidation<FeederInput>
+export function validateFeederInput(body: unknown, partial: boolean): FeederValidation<Partial<FeederInput>> {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, error: 'Body must be a JSON object' }
+  }
+
+  const input = body as Record<string, unknown>
+  const value: Partial<FeederInput> = {}
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 60) {
+      return { ok: false, error: 'name must be a non-empty string of at most 60 characters' }
+    }
+    value.name = input.name.trim()
+  }
+  if (input.capacity_ml !== undefined || !partial) {
+    if (typeof input.capacity_ml !== 'number' || !(input.capacity_ml > 0)) {
+      return { ok: false, error: 'capacity_ml must be a positive number' }
+    }
+    value.capacity_ml = input.capacity_ml
+  }
+  if (input.threshold !== undefined || !partial) {
+    if (typeof input.threshold !== 'number' || input.threshold < 0 || input.threshold > 100) {
+      return { ok: false, error: 'threshold must be a number from 0 to 100' }
+    }
+    value.threshold = input.threshold
+  }
+  if (input.location !== undefined) {
+    if (typeof input.location !== 'string') {
+      return { ok: false, error: 'location must be a string' }
+    }
+    value.location = input.location.trim()
+  } else if (!partial) {
+    value.location = ''
+  }
+  if (input.nectar_max_age_hours !== undefined) {
+    if (typeof input.nectar_max_age_hours !== 'number' || !(input.nectar_max_age_hours > 0)) {
+      return { ok: false, error: 'nectar_max_age_hours must be a positive number' }
+    }
+    value.nectar_max_age_hours = input.nectar_max_age_hours
+  }
+  if (input.calibration !== undefined) {
+    // null clears a calibration
+    const calibration = input.calibration === null ? null : validateCalibration(input.calibration)
+    if (calibration === null && input.calibration !== null) {
+      return { ok: false, error: 'calibration must have an roi inside the frame and an empty_line below the full_line' }
+    }
+    value.calibration = calibration
+  }
+  if (input.schedule !== undefined) {
+    // null goes back to scanning around the clock
+    const schedule = input.schedule === null ? null : validateSchedule(input.schedule)
+    if (schedule === null && input.schedule !== null) {
+      return { ok: false, error: 'schedule must have a mode of always, hours (with start and end times as HH:MM) or daylight, and quiet_hours must be HH:MM times' }
+    }
+    if (schedule?.mode === 'daylight' && !configuredLocation()) {
+      return { ok: false, error: 'Daylight schedules need HUMMIGUARD_LATITUDE and HUMMIGUARD_LONGITUDE to be set on the server' }
+    }
+    value.schedule = schedule
+  }
+
+  return { ok: true, value }
+}
+
+export function listFeeders(): Promise<Feeder[]> {
+  return readDocument<Feeder[]>(DOCUMENT, [DEFAULT_FEEDER])
+}
+
+export async function getFeeder(id: string): Promise<Feeder | undefined> {
+  return (await listFeeders()).find(f => f.id === id)
+}
+
+export async function createFeeder(input: FeederInput): Promise<Feeder> {
+  const feeder: Feeder = {
+    id: createId(),
+    ...input,
+    created_at: new Date().toISOString(),
+  }
+  await updateDocument<Feeder[]>(DOCUMENT, [DEFAULT_FEEDER], feeders => [...feeders, feeder])
+  return feeder
+}
+
+// Add feeder profiles from an export unless their id already exists. Returns how many were added
+export async function importFeeders(profiles: Feeder[]): Promise<number> {
+  let added = 0
+  await updateDocument<Feeder[]>(DOCUMENT, [DEFAULT_FEEDER], feeders => {
+    const known = new Set(feeders.map(f => f.id))
+    const fresh = profiles.filter(f => !known.has(f.id))
+    added = fresh.length
+    return [...feeders, ...fresh]
+  })
+  return added
+}
+
+export async function updateFeeder(id: string, patch: Partial<FeederInput>): Promise<Feeder | undefined> {
+  let updated: Feeder | undefined
+  await updateDocument<Feeder[]>(DOCUMENT, [DEFAULT_FEEDER], feeders =>
+    feeders.map(f => {
+      if (f.id !== id) return f
+      updated = { ...f, ...patch }
+      return updated
+    })
+  )
+  return updated
+}
+
+export async function deleteFeeder(id: string): Promise<boolean> {
+  let found = false
+  await updateDocument<Feeder[]>(DOCUMENT, [DEFAULT_FEEDER], feeders =>
+    feeders.filter(f => {
+      if (f.id === id) found = true
+      return f.id !== id
+    })
+  )
+  return found
+}
@@ -0,0 +1,81 @@
+import { lastRefill, REFILL_JUMP } from './events'
+import { readingsSince } from './readings'
+import type { Feeder, FeederEvent, Forecast, Reading } from './types'
+
+/**
+ * Consumption forecasting. Fits a straight line to the usable readings since
+ * the last refill (a recorded refill event or a level jump, whichever is
+ * later) and extrapolates when the feeder will cross its alert
+ * threshold and when it will run dry. Low-confidence readings are ignored.
+ */
+
+const MIN_READINGS = 3
+const MIN_SPAN_HOURS = 0.5
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How far back to look for the last refill
+const WINDOW_DAYS = 7
+
+// Index of the first reading after the most recent refill jump
+function lastRefillIndex(readings: Reading[]): number {
+  for (let i = readings.length - 1; i > 0; i--) {
+    if (readings[i].level - readings[i - 1].level >= REFILL_JUMP) return i
+  }
+  return 0
+}
+
+function fitLine(points: { x: number, y: number }[]): { slope: number, intercept: number } {
+  const n = points.length
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n
+  let num = 0
+  let den = 0
+  for (const p of points) {
+    num += (p.x - meanX) * (p.y - meanY)
+    den += (p.x - meanX) ** 2
+  }
+  const slope = den === 0 ? 0 : num / den
+  return { slope, intercept: meanY - slope * meanX }
+}
+
+// `readings` must be in chronological order
+export function forecastFeeder(feeder: Feeder, readings: Reading[], refill: FeederEvent | null = null): Forecast | null {
+  const refilledAt = refill ? Date.parse(refill.timestamp) : -Infinity
+  const usable = readings.filter(r =>
+    r.feeder_visible && r.level >= 0 && r.confidence !== 'low' && Date.parse(r.timestamp) >= refilledAt
+  )
+  const segment = usable.slice(lastRefillIndex(usable))
+  if (segment.length < MIN_READINGS) return null
+
+  const start = Date.parse(segment[0].timestamp)
+  const points = segment.map(r => ({ x: (Date.parse(r.timestamp) - start) / HOUR_MS, y: r.level }))
+  const lastX = points[points.length - 1].x
+  if (lastX < MIN_SPAN_HOURS) return null
+
+  const { slope, intercept } = fitLine(points)
+  const rate = Math.max(-slope, 0)
+  const current = Math.min(Math.max(intercept + slope * lastX, 0), 100)
+  const lastTime = start + lastX * HOUR_MS
+
+  const eta = (level: number): string | null => {
+    if (current <= level) return new Date(lastTime).toISOString()
+    if (rate === 0) return null
+    return new Date(lastTime + (current - level) / rate * HOUR_MS).toISOString()
+  }
+
+  return {
+    rate_per_hour: Math.round(rate * 100) / 100,
+    estimated_level: Math.round(current),
+    threshold_at: eta(feeder.threshold),
+    empty_at: eta(0),
+    based_on: segment.length,
+    since: segment[0].timestamp,
+  }
+}
+
+export async function loadForecast(feeder: Feeder): Promise<Forecast | null> {
+  const from = new Date(Date.now() - WINDOW_DAYS * 24 * HOUR_MS)
+  const [readings, refill] = await Promise.all([readingsSince(feeder.id, from), lastRefill(feeder.id)])
+  return forecastFeeder(feeder, readings, refill)
+}
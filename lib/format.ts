@@ -0,0 +1,21 @@
+// Display helpers shared by the client pages
+
+// "~45 min", "~3 hours", "~2 days" until an ISO timestamp
+export function formatTimeUntil(iso: string, now = Date.now()): string {
+  const minutes = Math.max((Date.parse(iso) - now) / 60000, 0)
+  if (minutes < 60) return `~${Math.max(Math.round(minutes), 1)} min`
+  const hours = minutes / 60
+  if (hours < 48) return `~${Math.round(hours)} hour${Math.round(hours) === 1 ? '' : 's'}`
+  return `~${Math.round(hours / 24)} days`
+}
+
+// One-line refill hint for a forecast
+export function describeForecast(forecast: { threshold_at: string | null, empty_at: string | null }): string {
+  if (!forecast.threshold_at) return 'Level steady — no refill predicted'
+  if (Date.parse(forecast.threshold_at) <= Date.now()) {
+    if (!forecast.empty_at) return 'Refill now'
+    if (Date.parse(forecast.empty_at) <= Date.now()) return 'Feeder is empty'
+    return `Empty in ${formatTimeUntil(forecast.empty_at)}`
+  }
+  return `Refill in ${formatTimeUntil(forecast.threshold_at)}`
+}
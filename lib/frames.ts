@@ -0,0 +1,47 @@
+// Client-side helpers for cheap per-frame checks on a downsampled copy of the
+// video, so the page can decide locally whether a frame is worth analyzing.
+
+export const SAMPLE_WIDTH = 64
+export const SAMPLE_HEIGHT = 36
+
+// Luminance of each pixel in a small copy of the source, 0-255
+export function sampleFrame(
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  width = SAMPLE_WIDTH,
+  height = SAMPLE_HEIGHT
+): Uint8ClampedArray | null {
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+
+  ctx.drawImage(source, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+
+  const luma = new Uint8ClampedArray(width * height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return luma
+}
+
+// Fraction of pixels whose luminance moved by more than `pixelDelta`
+export function frameDifference(a: Uint8ClampedArray, b: Uint8ClampedArray, pixelDelta = 24): number {
+  if (a.length !== b.length || a.length === 0) return 1
+
+  let changed = 0
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > pixelDelta) changed++
+  }
+  return changed / a.length
+}
+
+export type MotionSensitivity = 'low' | 'medium' | 'high'
+
+// Changed-pixel fraction that counts as a meaningful scene change
+export const MOTION_THRESHOLDS: Record<MotionSensitivity, number> = {
+  low: 0.08,
+  medium: 0.03,
+  high: 0.01,
+}
@@ -0,0 +1,463 @@
+import { validateCorrection } from './accuracy'
+import { importAlertEvents, listAlertEvents } from './alerts'
+import { EVENT_TYPES, importEvents, listEvents } from './events'
+import { importFeeders, listFeeders, validateFeederInput } from './feeders'
+import { validateQuality } from './quality'
+import { importReadings, readingsSince } from './readings'
+import type { AlertEvent, AlertKind, Confidence, Feeder, FeederEvent, FeederEventType, FrameQuality, Reading, ReadingCorrection } from './types'
+
+/**
+ * Export and import of feeder history. JSON exports carry the feeder
+ * profiles plus readings, refill/cleaning events and alerts; CSV flattens
+ * the same records into one sheet with a `record_type` column. Both formats
+ * can be imported again, which only adds records whose id is not already
+ * stored, so re-importing an export is harmless.
+ */
+
+export const HISTORY_VERSION = 1
+
+export interface HistoryQuery {
+  feederId?: string
+  from?: Date
+  to?: Date
+}
+
+export interface HistoryExport {
+  version: number
+  exported_at: string
+  feeders: Feeder[]
+  readings: Reading[]
+  events: FeederEvent[]
+  alerts: AlertEvent[]
+}
+
+export interface ImportCounts {
+  feeders: number
+  readings: number
+  events: number
+  alerts: number
+}
+
+type HistoryValidation =
+  | { ok: true, value: HistoryExport }
+  | { ok: false, error: string }
+
+const CONFIDENCES: Confidence[] = ['high', 'medium', 'low']
+const ALERT_KINDS: AlertKind[] = ['low_nectar', 'recovered', 'nectar_age']
+
+const CSV_COLUMNS = [
+  'record_type',
+  'id',
+  'feeder_id',
+  'timestamp',
+  'level',
+  'smoothed_level',
+  'confidence',
+  'description',
+  'feeder_visible',
+  'bird_count',
+  'species',
+  'species_confidence',
+  'event_type',
+  'source',
+  'level_before',
+  'level_after',
+  'alert_kind',
+  'reading_id',
+  'notified',
+  'corrected_level',
+  'corrected_feeder_visible',
+  'correction_note',
+  'corrected_by',
+  'corrected_at',
+  'quality_brightness',
+  'quality_contrast',
+  'quality_sharpness',
+  'quality_clipped',
+  'quality_shift',
+] as const
+
+type CsvColumn = typeof CSV_COLUMNS[number]
+type CsvRow = Partial<Record<CsvColumn, string | number | boolean | null>>
+
+function inRange(timestamp: string, query: HistoryQuery): boolean {
+  const t = Date.parse(timestamp)
+  return t >= (query.from?.getTime() ?? -Infinity) && t <= (query.to?.getTime() ?? Infinity)
+}
+
+const byTime = (a: { timestamp: string }, b: { timestamp: string }) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+
+// Everything matching the query, oldest first
+export async function exportHistory(query: HistoryQuery = {}): Promise<HistoryExport> {
+  const [feeders, readings, events, alerts] = await Promise.all([
+    listFeeders(),
+    readingsSince(query.feederId ?? null, query.from ?? new Date(0)),
+    listEvents(query),
+    listAlertEvents(query.feederId),
+  ])
+
+  return {
+    version: HISTORY_VERSION,
+    exported_at: new Date().toISOString(),
+    feeders: feeders.filter(f => !query.feederId || f.id === query.feederId),
+    readings: readings.filter(r => inRange(r.timestamp, query)),
+    events: events.filter(e => inRange(e.timestamp, query)).sort(byTime),
+    alerts: alerts.filter(a => inRange(a.timestamp, query)).sort(byTime),
+  }
+}
+
+// Text starting with one of these runs as a formula in a spreadsheet; such
+// cells get a leading ', as do cells that already start with one so the
+// prefix can always be stripped again on import
+const FORMULA_START = /^[=+\-@\t\r']/
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function historyToCsv(history: HistoryExport): string {
+  const rows: CsvRow[] = [
+    ...history.readings.map((r): CsvRow => ({
+      record_type: 'reading',
+      id: r.id,
+      feeder_id: r.feeder_id,
+      timestamp: r.timestamp,
+      level: r.level,
+      smoothed_level: r.smoothed_level,
+      confidence: r.confidence,
+      description: r.description,
+      feeder_visible: r.feeder_visible,
+      bird_count: r.birds?.count ?? 0,
+      species: r.birds?.species,
+      species_confidence: r.birds?.species_confidence,
+      corrected_level: r.correction?.level,
+      corrected_feeder_visible: r.correction?.feeder_visible,
+      correction_note: r.correction?.note,
+      corrected_by: r.correction?.corrected_by,
+      corrected_at: r.correction?.corrected_at,
+      quality_brightness: r.quality?.brightness,
+      quality_contrast: r.quality?.contrast,
+      quality_sharpness: r.quality?.sharpness,
+      quality_clipped: r.quality?.clipped,
+      quality_shift: r.quality?.shift,
+    })),
+    ...history.events.map((e): CsvRow => ({
+      record_type: 'event',
+      id: e.id,
+      feeder_id: e.feeder_id,
+      timestamp: e.timestamp,
+      event_type: e.type,
+      source: e.source,
+      level_before: e.level_before,
+      level_after: e.level_after,
+    })),
+    ...history.alerts.map((a): CsvRow => ({
+      record_type: 'alert',
+      id: a.id,
+      feeder_id: a.feeder_id,
+      timestamp: a.timestamp,
+      level: a.level,
+      alert_kind: a.kind,
+      reading_id: a.reading_id,
+      notified: a.notified,
+    })),
+  ].sort((a, b) => Date.parse(a.timestamp as string) - Date.parse(b.timestamp as string))
+
+  return [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(',')),
+  ].join('\r\n') + '\r\n'
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(cell => cell !== ''))
+}
+
+const nullable = (value: string | undefined) => value === undefined || value === '' ? null : value
+const numeric = (value: string | undefined) => value === undefined || value === '' ? null : Number(value)
+const boolean = (value: string | undefined) => value === 'true' ? true : value === 'false' ? false : value
+
+// Turn a CSV export back into the JSON shape (without feeder profiles) for validateHistory
+export function historyFromCsv(text: string): { ok: true, value: unknown } | { ok: false, error: string } {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header || !header.includes('record_type')) {
+    return { ok: false, error: 'CSV must start with a header row including record_type' }
+  }
+
+  const history = { feeders: [] as unknown[], readings: [] as unknown[], events: [] as unknown[], alerts: [] as unknown[] }
+  for (const cells of rows) {
+    const row: Partial<Record<string, string>> = {}
+    header.forEach((column, i) => { row[column] = cells[i]?.startsWith("'") ? cells[i].slice(1) : cells[i] })
+
+    if (row.record_type === 'reading') {
+      history.readings.push({
+        id: row.id,
+        feeder_id: row.feeder_id,
+        timestamp: row.timestamp,
+        level: numeric(row.level),
+        smoothed_level: numeric(row.smoothed_level),
+        confidence: row.confidence,
+        description: row.description,
+        feeder_visible: boolean(row.feeder_visible),
+        birds: {
+          count: numeric(row.bird_count) ?? 0,
+          species: nullable(row.species),
+          species_confidence: nullable(row.species_confidence),
+        },
+        correction: row.corrected_at
+          ? {
+              level: numeric(row.corrected_level),
+              feeder_visible: boolean(row.corrected_feeder_visible),
+              note: row.correction_note ?? '',
+              corrected_by: row.corrected_by,
+              corrected_at: row.corrected_at,
+            }
+          : null,
+        quality: row.quality_brightness
+          ? {
+              brightness: numeric(row.quality_brightness),
+              contrast: numeric(row.quality_contrast),
+              sharpness: numeric(row.quality_sharpness),
+              clipped: numeric(row.quality_clipped),
+              shift: numeric(row.quality_shift),
+            }
+          : null,
+      })
+    } else if (row.record_type === 'event') {
+      history.events.push({
+        id: row.id,
+        feeder_id: row.feeder_id,
+        timestamp: row.timestamp,
+        type: row.event_type,
+        source: row.source,
+        level_before: numeric(row.level_before),
+        level_after: numeric(row.level_after),
+      })
+    } else if (row.record_type === 'alert') {
+      history.alerts.push({
+        id: row.id,
+        feeder_id: row.feeder_id,
+        timestamp: row.timestamp,
+        kind: row.alert_kind,
+        level: numeric(row.level),
+        reading_id: nullable(row.reading_id),
+        notified: boolean(row.notified),
+      })
+    } else {
+      return { ok: false, error: `Unknown record_type "${row.record_type}"` }
+    }
+  }
+  return { ok: true, value: history }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Checks shared by every record type; returns a problem or null
+function checkBase(r: Record<string, unknown>): string | null {
+  if (typeof r.id !== 'string' || !r.id) return 'id must be a non-empty string'
+  if (typeof r.feeder_id !== 'string' || !r.feeder_id) return 'feeder_id must be a non-empty string'
+  if (typeof r.timestamp !== 'string' || isNaN(Date.parse(r.timestamp))) return 'timestamp must be an ISO 8601 timestamp'
+  return null
+}
+
+const isNumberOrNull = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value))
+
+// Each parser returns the cleaned record, or a problem description
+type Parser<T> = (r: Record<string, unknown>) => T | string
+
+const parseReading: Parser<Reading> = r => {
+  const problem = checkBase(r)
+  if (problem) return problem
+  if (typeof r.level !== 'number' || !Number.isFinite(r.level)) return 'level must be a number'
+  if (!isNumberOrNull(r.smoothed_level ?? null)) return 'smoothed_level must be a number or null'
+  if (!CONFIDENCES.includes(r.confidence as Confidence)) return 'confidence must be high, medium or low'
+  if (typeof r.description !== 'string') return 'description must be a string'
+  if (typeof r.feeder_visible !== 'boolean') return 'feeder_visible must be true or false'
+
+  const birds = isRecord(r.birds) ? r.birds : { count: 0, species: null, species_confidence: null }
+  if (typeof birds.count !== 'number' || !(birds.count >= 0)) return 'birds.count must be a non-negative number'
+  if (birds.species !== null && typeof birds.species !== 'string') return 'birds.species must be a string or null'
+  if (birds.species_confidence !== null && !CONFIDENCES.includes(birds.species_confidence as Confidence)) {
+    return 'birds.species_confidence must be high, medium, low or null'
+  }
+
+  let correction: ReadingCorrection | null = null
+  if (isRecord(r.correction)) {
+    const c = r.correction
+    const validation = validateCorrection(c)
+    if (!validation.ok) return `correction: ${validation.error}`
+    if (typeof c.corrected_by !== 'string' || typeof c.corrected_at !== 'string' || isNaN(Date.parse(c.corrected_at))) {
+      return 'correction needs corrected_by and an ISO 8601 corrected_at'
+    }
+    correction = { ...validation.value, corrected_by: c.corrected_by, corrected_at: c.corrected_at }
+  } else if (r.correction !== undefined && r.correction !== null) {
+    return 'correction must be an object or null'
+  }
+
+  let quality: FrameQuality | null = null
+  if (r.quality !== undefined && r.quality !== null) {
+    quality = validateQuality(r.quality)
+    if (!quality) return 'quality must have brightness, contrast, sharpness and clipped metrics, and shift as a fraction or null'
+  }
+
+  return {
+    id: r.id as string,
+    feeder_id: r.feeder_id as string,
+    level: r.level,
+    smoothed_level: (r.smoothed_level ?? null) as number | null,
+    confidence: r.confidence as Confidence,
+    description: r.description,
+    feeder_visible: r.feeder_visible,
+    birds: {
+      count: birds.count,
+      species: birds.species as string | null,
+      species_confidence: birds.species_confidence as Confidence | null,
+    },
+    correction,
+    quality,
+    timestamp: r.timestamp as string,
+  }
+}
+
+const parseEvent: Parser<FeederEvent> = r => {
+  const problem = checkBase(r)
+  if (problem) return problem
+  if (!EVENT_TYPES.includes(r.type as FeederEventType)) return `type must be one of ${EVENT_TYPES.join(', ')}`
+  if (r.source !== 'auto' && r.source !== 'manual') return 'source must be auto or manual'
+  if (!isNumberOrNull(r.level_before) || !isNumberOrNull(r.level_after)) {
+    return 'level_before and level_after must be numbers or null'
+  }
+
+  return {
+    id: r.id as string,
+    feeder_id: r.feeder_id as string,
+    type: r.type as FeederEventType,
+    source: r.source,
+    level_before: r.level_before as number | null,
+    level_after: r.level_after as number | null,
+    timestamp: r.timestamp as string,
+  }
+}
+
+const parseAlert: Parser<AlertEvent> = r => {
+  const problem = checkBase(r)
+  if (problem) return problem
+  if (!ALERT_KINDS.includes(r.kind as AlertKind)) return `kind must be one of ${ALERT_KINDS.join(', ')}`
+  if (!isNumberOrNull(r.level)) return 'level must be a number or null'
+  if (r.reading_id !== null && typeof r.reading_id !== 'string') return 'reading_id must be a string or null'
+  if (typeof r.notified !== 'boolean') return 'notified must be true or false'
+
+  return {
+    id: r.id as string,
+    feeder_id: r.feeder_id as string,
+    kind: r.kind as AlertKind,
+    level: r.level as number | null,
+    reading_id: r.reading_id,
+    notified: r.notified,
+    timestamp: r.timestamp as string,
+  }
+}
+
+const parseFeeder: Parser<Feeder> = r => {
+  if (typeof r.id !== 'string' || !r.id) return 'id must be a non-empty string'
+  if (typeof r.created_at !== 'string' || isNaN(Date.parse(r.created_at))) return 'created_at must be an ISO 8601 timestamp'
+  const validation = validateFeederInput(r, false)
+  if (!validation.ok) return validation.error
+  return { id: r.id, ...validation.value, created_at: r.created_at }
+}
+
+// Parse every record of one section, stopping at the first problem
+function parseSection<T>(value: Record<string, unknown>, section: keyof ImportCounts, parse: Parser<T>): T[] | string {
+  const records = value[section] ?? []
+  if (!Array.isArray(records)) return `${section} must be an array`
+
+  const parsed: T[] = []
+  for (let i = 0; i < records.length; i++) {
+    const result = isRecord(records[i]) ? parse(records[i]) : 'must be an object'
+    if (typeof result === 'string') return `${section}[${i}]: ${result}`
+    parsed.push(result)
+  }
+  return parsed
+}
+
+/**
+ * Check a parsed JSON or CSV import. Any invalid record rejects the whole
+ * import, naming the first problem, so a bad file never half-restores.
+ */
+export function validateHistory(value: unknown): HistoryValidation {
+  if (!isRecord(value)) return { ok: false, error: 'Import must be a JSON object' }
+  if (value.version !== undefined && value.version !== HISTORY_VERSION) {
+    return { ok: false, error: `Unsupported export version ${value.version}` }
+  }
+
+  const feeders = parseSection(value, 'feeders', parseFeeder)
+  if (typeof feeders === 'string') return { ok: false, error: feeders }
+  const readings = parseSection(value, 'readings', parseReading)
+  if (typeof readings === 'string') return { ok: false, error: readings }
+  const events = parseSection(value, 'events', parseEvent)
+  if (typeof events === 'string') return { ok: false, error: events }
+  const alerts = parseSection(value, 'alerts', parseAlert)
+  if (typeof alerts === 'string') return { ok: false, error: alerts }
+
+  return {
+    ok: true,
+    value: {
+      version: HISTORY_VERSION,
+      exported_at: typeof value.exported_at === 'string' ? value.exported_at : new Date().toISOString(),
+      feeders,
+      readings,
+      events,
+      alerts,
+    },
+  }
+}
+
+// Store the records from a validated import; returns how many of each were new
+export async function importHistory(history: HistoryExport): Promise<ImportCounts> {
+  return {
+    feeders: await importFeeders(history.feeders),
+    readings: await importReadings(history.readings),
+    events: await importEvents(history.events),
+    alerts: await importAlertEvents(history.alerts),
+  }
+}
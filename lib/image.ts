@@ -0,0 +1,185 @@
+import sharp from 'sharp'
+import type { ImageMediaType } from './vision'
+
+/**
+ * Validation and downscaling of uploaded frames before they go upstream.
+ * The format is detected from the decoded bytes rather than trusted from the
+ * client, the payload is limited to MAX_IMAGE_BYTES and MAX_IMAGE_DIMENSION
+ * pixels per side, and frames whose long edge exceeds IMAGE_TARGET_DIMENSION
+ * are resized down to it, since the model gains nothing from extra pixels
+ * but they are billed as input tokens.
+ */
+
+export type ImageErrorCode = 'invalid_request' | 'invalid_image' | 'unsupported_format' | 'image_too_large'
+
+export class ImageError extends Error {
+  code: ImageErrorCode
+  status: number
+
+  constructor(code: ImageErrorCode, message: string, status = 400) {
+    super(message)
+    this.name = 'ImageError'
+    this.code = code
+    this.status = status
+  }
+}
+
+export interface PreparedImage {
+  // Decoded upload, before any downscaling
+  original: Buffer
+  // Base64 payload to send upstream
+  data: string
+  mediaType: ImageMediaType
+  width: number
+  height: number
+  bytes: number
+  // Whether the image was downscaled
+  resized: boolean
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024
+const DEFAULT_MAX_DIMENSION = 8000
+const DEFAULT_TARGET_DIMENSION = 1568
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/
+const DATA_URL = /^data:[\w/+.-]+;base64,/
+
+function limits() {
+  return {
+    maxBytes: Number(process.env.MAX_IMAGE_BYTES ?? DEFAULT_MAX_BYTES),
+    maxDimension: Number(process.env.MAX_IMAGE_DIMENSION ?? DEFAULT_MAX_DIMENSION),
+    targetDimension: Number(process.env.IMAGE_TARGET_DIMENSION ?? DEFAULT_TARGET_DIMENSION),
+  }
+}
+
+// Largest request body worth parsing: the base64 image plus room for the other fields
+export function maxRequestBytes(): number {
+  return Math.ceil(limits().maxBytes * 4 / 3) + 64 * 1024
+}
+
+// Identify the format from the file signature
+export function detectFormat(bytes: Buffer): ImageMediaType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg'
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png'
+  }
+  if (bytes.length >= 12 &&
+      bytes.toString('ascii', 0, 4) === 'RIFF' &&
+      bytes.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp'
+  }
+  return null
+}
+
+const SHARP_FORMATS: Record<ImageMediaType, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+/**
+ * Read an upload's JSON body, stopping as soon as it passes maxRequestBytes()
+ * so chunked uploads without a Content-Length are capped too.
+ */
+export async function readUploadBody(request: Request): Promise<Record<string, unknown>> {
+  const max = maxRequestBytes()
+  if (Number(request.headers.get('content-length')) > max) {
+    throw new ImageError('image_too_large', 'Request body too large', 413)
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  if (request.body) {
+    const reader = request.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      size += value.byteLength
+      if (size > max) {
+        await reader.cancel()
+        throw new ImageError('image_too_large', 'Request body too large', 413)
+      }
+      chunks.push(value)
+    }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    body = undefined
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ImageError('invalid_request', 'Request body must be a JSON object')
+  }
+  return body as Record<string, unknown>
+}
+
+// Decode, check and if needed downscale a base64 (or data URL) image
+export async function prepareImage(image: unknown): Promise<PreparedImage> {
+  if (typeof image !== 'string') {
+    throw new ImageError('invalid_image', 'image must be a base64 string')
+  }
+
+  const { maxBytes, maxDimension, targetDimension } = limits()
+  const payload = image.replace(DATA_URL, '').replace(/\s/g, '')
+  if (!BASE64.test(payload)) {
+    throw new ImageError('invalid_image', 'image is not valid base64')
+  }
+
+  const bytes = Buffer.from(payload, 'base64')
+  if (bytes.length > maxBytes) {
+    throw new ImageError('image_too_large', `Image is ${bytes.length} bytes; the limit is ${maxBytes}`, 413)
+  }
+
+  const mediaType = detectFormat(bytes)
+  if (!mediaType) {
+    throw new ImageError('unsupported_format', 'Image must be a JPEG, PNG or WebP file', 415)
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(bytes).metadata()
+  } catch {
+    throw new ImageError('invalid_image', 'Image data is corrupt or truncated')
+  }
+  const { width, height } = metadata
+  if (metadata.format !== SHARP_FORMATS[mediaType] || !width || !height) {
+    throw new ImageError('invalid_image', 'Image data is corrupt or truncated')
+  }
+  if (width > maxDimension || height > maxDimension) {
+    throw new ImageError(
+      'image_too_large',
+      `Image is ${width}x${height}; the limit is ${maxDimension} pixels per side`,
+      413
+    )
+  }
+
+  if (Math.max(width, height) <= targetDimension) {
+    return { original: bytes, data: payload, mediaType, width, height, bytes: bytes.length, resized: false }
+  }
+
+  let resized: Buffer
+  let info: sharp.OutputInfo
+  try {
+    ({ data: resized, info } = await sharp(bytes)
+      .rotate()
+      .resize(targetDimension, targetDimension, { fit: 'inside' })
+      .toFormat(SHARP_FORMATS[mediaType] as keyof sharp.FormatEnum, { quality: 85 })
+      .toBuffer({ resolveWithObject: true }))
+  } catch {
+    throw new ImageError('invalid_image', 'Image data is corrupt or truncated')
+  }
+
+  return {
+    original: bytes,
+    data: resized.toString('base64'),
+    mediaType,
+    width: info.width,
+    height: info.height,
+    bytes: resized.length,
+    resized: true,
+  }
+}
@@ -0,0 +1,31 @@
+import { EventEmitter } from 'events'
+import type { LiveEvent } from './types'
+
+/**
+ * In-process fan-out of readings and alert changes to live subscribers
+ * (GET /api/live). Subscribers only see events published by the same server
+ * process, which is all there is in the single `next start` deployment.
+ */
+
+const CHANNEL = 'event'
+
+// Kept on globalThis so dev-mode module reloads share one emitter
+const globalForLive = globalThis as typeof globalThis & { hummiguardLive?: EventEmitter }
+const emitter = globalForLive.hummiguardLive ??= new EventEmitter().setMaxListeners(0)
+
+// Best effort: a failing subscriber must not fail the request that published
+export function publish(event: LiveEvent): void {
+  try {
+    emitter.emit(CHANNEL, event)
+  } catch (err) {
+    console.error('Live publish error:', err)
+  }
+}
+
+// Call the listener for every event until the returned function is called
+export function subscribe(listener: (event: LiveEvent) => void): () => void {
+  emitter.on(CHANNEL, listener)
+  return () => {
+    emitter.off(CHANNEL, listener)
+  }
+}
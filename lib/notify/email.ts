@@ -0,0 +1,51 @@
+import nodemailer from 'nodemailer'
+import { Notification, NotificationChannel } from './types'
+
+export interface EmailConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+  to: string
+}
+
+function formatBody(notification: Notification): string {
+  const lines = [
+    notification.message,
+    '',
+    `Feeder: ${notification.feeder.name}`,
+  ]
+  if (notification.feeder.location) lines.push(`Location: ${notification.feeder.location}`)
+  if (notification.reading) {
+    lines.push(
+      `Level: ${notification.reading.level}% (${notification.reading.confidence} confidence)`,
+      `Seen: ${notification.reading.description}`
+    )
+  }
+  lines.push(`Time: ${new Date(notification.timestamp).toLocaleString()}`)
+  return lines.join('\n')
+}
+
+export function createEmailChannel(config: EmailConfig): NotificationChannel {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  })
+
+  return {
+    name: 'email',
+
+    async send(notification: Notification): Promise<void> {
+      await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: `HummiGuard: ${notification.title}`,
+        text: formatBody(notification),
+      })
+    },
+  }
+}
@@ -0,0 +1,54 @@
+import { createEmailChannel } from './email'
+import { createPushChannel } from './push'
+import { DeliveryResult, Notification, NotificationChannel } from './types'
+import { createWebhookChannel } from './webhook'
+
+export * from './types'
+
+// Channels enabled by the environment; unset variables disable a channel
+export function getNotificationChannels(): NotificationChannel[] {
+  const channels: NotificationChannel[] = []
+
+  if (process.env.ALERT_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(process.env.ALERT_WEBHOOK_URL))
+  }
+
+  if (process.env.SMTP_HOST && process.env.ALERT_EMAIL_TO) {
+    channels.push(createEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+      from: process.env.ALERT_EMAIL_FROM || 'HummiGuard <hummiguard@localhost>',
+      to: process.env.ALERT_EMAIL_TO,
+    }))
+  }
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    channels.push(createPushChannel({
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+      subject: process.env.VAPID_SUBJECT || 'mailto:hummiguard@localhost',
+    }))
+  }
+
+  return channels
+}
+
+// Deliver to every channel; one failing channel never blocks the others
+export async function notify(notification: Notification): Promise<DeliveryResult[]> {
+  const channels = getNotificationChannels()
+
+  const results = await Promise.allSettled(channels.map(c => c.send(notification)))
+
+  return results.map((result, i) => {
+    if (result.status === 'fulfilled') return { channel: channels[i].name, ok: true }
+    console.error(`Notification via ${channels[i].name} failed:`, result.reason)
+    return {
+      channel: channels[i].name,
+      ok: false,
+      error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    }
+  })
+}
@@ -0,0 +1,48 @@
+import webpush, { WebPushError } from 'web-push'
+import { listSubscriptions, removeSubscription } from '../push'
+import { Notification, NotificationChannel } from './types'
+
+export interface VapidConfig {
+  publicKey: string
+  privateKey: string
+  subject: string
+}
+
+// Push service responses meaning the subscription is gone for good
+const EXPIRED_STATUSES = [404, 410]
+
+export function createPushChannel(vapid: VapidConfig): NotificationChannel {
+  return {
+    name: 'push',
+
+    async send(notification: Notification): Promise<void> {
+      const payload = JSON.stringify({
+        title: notification.kind === 'low_nectar' ? 'LOW NECTAR' : notification.title,
+        body: notification.message,
+        tag: `hummiguard-${notification.feeder.id}`,
+        feeder_id: notification.feeder.id,
+        kind: notification.kind,
+      })
+
+      const subscriptions = await listSubscriptions()
+      const results = await Promise.allSettled(subscriptions.map(sub =>
+        webpush.sendNotification(sub, payload, { vapidDetails: vapid, TTL: 60 * 60 })
+      ))
+
+      let failures = 0
+      for (const [i, result] of results.entries()) {
+        if (result.status === 'fulfilled') continue
+        if (result.reason instanceof WebPushError && EXPIRED_STATUSES.includes(result.reason.statusCode)) {
+          await removeSubscription(subscriptions[i].endpoint)
+        } else {
+          failures++
+          console.error('Push delivery failed:', result.reason)
+        }
+      }
+
+      if (failures > 0) {
+        throw new Error(`Push failed for ${failures} of ${subscriptions.length} subscriptions`)
+      }
+    },
+  }
+}
@@ -0,0 +1,23 @@
+import type { Feeder, Reading } from '../types'
+
+export type NotificationKind = 'low_nectar' | 'recovered' | 'nectar_age' | 'test'
+
+export interface Notification {
+  kind: NotificationKind
+  title: string
+  message: string
+  feeder: Feeder
+  reading?: Reading
+  timestamp: string
+}
+
+export interface NotificationChannel {
+  name: string
+  send(notification: Notification): Promise<void>
+}
+
+export interface DeliveryResult {
+  channel: string
+  ok: boolean
+  error?: string
+}
@@ -0,0 +1,25 @@
+import { Notification, NotificationChannel } from './types'
+
+const TIMEOUT_MS = 10000
+
+// POSTs the notification as JSON to any HTTP endpoint
+export function createWebhookChannel(url: string): NotificationChannel {
+  return {
+    name: 'webhook',
+
+    async send(notification: Notification): Promise<void> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with HTTP ${response.status}`)
+      }
+    },
+  }
+}
@@ -0,0 +1,20 @@
+// Query-string helpers for the API routes. Each returns undefined when the
+// parameter is absent and null when it is present but malformed.
+
+export function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export function parseInteger(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const n = Number(value)
+  return Number.isInteger(n) && n >= 0 ? n : null
+}
+
+export function parseSignedInteger(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const n = Number(value)
+  return Number.isInteger(n) ? n : null
+}
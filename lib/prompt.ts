@@ -0,0 +1,102 @@
+import type { FrameCalibration } from './types'
+
+/**
+ * Versioned prompt configurations. Each version pins the prompt text together
+ * with the model settings it was written for, so a reading can be reproduced
+ * and versions can be compared with `npm run evaluate` before switching the
+ * live one over with PROMPT_VERSION. Published versions should not be edited;
+ * add a new one instead.
+ */
+
+export interface PromptVersion {
+  version: string
+  model: string
+  max_tokens: number
+  temperature?: number
+  instructions: string
+  // Appended for calibrated frames; {full_line} and {empty_line} are
+  // percentages of the image height from the top
+  calibration: string
+  closing: string
+}
+
+const V1: PromptVersion = {
+  version: 'v1',
+  model: 'claude-sonnet-4-20250514',
+  max_tokens: 1000,
+  instructions: `You are analyzing an image from a hummingbird feeder monitoring system called HummiGuard.
+
+Your task: Determine the nectar/sugar water fill level in any visible feeder or container, and count any hummingbirds in the frame.
+
+IMPORTANT: Respond ONLY with a valid JSON object, no other text. Use this exact format:
+{
+  "level": <number 0-100 representing percentage full>,
+  "confidence": "<high|medium|low>",
+  "description": "<brief 1-sentence description of what you see>",
+  "feeder_visible": <true|false>,
+  "birds": {
+    "count": <number of hummingbirds visible, 0 if none>,
+    "species": "<most likely species name, or null if no birds or unsure>",
+    "species_confidence": "<high|medium|low, or null if species is null>"
+  }
+}
+
+Guidelines:
+- If you see a hummingbird feeder, estimate how full the nectar reservoir is (0-100%)
+- If you see any container with liquid that could be being monitored, estimate its fill level
+- If no feeder or relevant container is visible, set feeder_visible to false and level to -1
+- Consider the liquid line, empty space above it, and overall container capacity
+- Red or pink tinted liquid/glass is common for hummingbird feeders
+- Count every hummingbird in the frame, whether feeding, perched or hovering nearby
+- Only name a species when markings are visible; use common names such as "Ruby-throated Hummingbird"`,
+  calibration: `Calibration:
+- This image is cropped to the feeder's nectar reservoir.
+- The reservoir is FULL when the liquid surface is {full_line}% of the way down from the top of the image.
+- The reservoir is EMPTY when the liquid surface is {empty_line}% of the way down from the top of the image.
+- Also include "liquid_line": <number 0-1, how far down from the top of the image the liquid surface is>. Use null if you cannot see it.`,
+  closing: 'Respond with ONLY the JSON object.',
+}
+
+export const PROMPT_VERSIONS: PromptVersion[] = [V1]
+
+export const DEFAULT_PROMPT_VERSION = 'v1'
+
+export function getPromptVersion(version: string): PromptVersion | undefined {
+  return PROMPT_VERSIONS.find(p => p.version === version)
+}
+
+// The version selected by PROMPT_VERSION, or the default
+export function activePromptVersion(): PromptVersion {
+  const version = process.env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION
+  const config = getPromptVersion(version)
+  if (!config) {
+    throw new Error(`Unknown prompt version: ${version}`)
+  }
+  return config
+}
+
+function percent(fraction: number): number {
+  return Math.round(fraction * 100)
+}
+
+// The analysis prompt, with the marked empty/full lines when the frame is calibrated
+export function buildAnalysisPrompt(
+  calibration?: FrameCalibration | null,
+  config: PromptVersion = activePromptVersion()
+): string {
+  if (!calibration) {
+    return `${config.instructions}
+
+${config.closing}`
+  }
+
+  const lines = config.calibration
+    .replace('{full_line}', String(percent(calibration.full_line)))
+    .replace('{empty_line}', String(percent(calibration.empty_line)))
+
+  return `${config.instructions}
+
+${lines}
+
+${config.closing}`
+}
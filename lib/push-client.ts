@@ -0,0 +1,76 @@
+// Browser-side helpers for the service worker and Web Push subscription
+
+export type PushStatus = 'unsupported' | 'unconfigured' | 'denied' | 'off' | 'on'
+
+const SW_URL = '/hummiguard-ai/sw.js'
+const SW_SCOPE = '/hummiguard-ai'
+
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(padded)
+  const bytes = new Uint8Array(raw.length)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return Promise.resolve(null)
+  return navigator.serviceWorker.register(SW_URL, { scope: SW_SCOPE })
+}
+
+export async function getPushStatus(): Promise<PushStatus> {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
+    return 'unsupported'
+  }
+  if (Notification.permission === 'denied') return 'denied'
+
+  const response = await fetch('/hummiguard-ai/api/push')
+  if (!response.ok) return 'unconfigured'
+
+  const registration = await navigator.serviceWorker.ready
+  return await registration.pushManager.getSubscription() ? 'on' : 'off'
+}
+
+export async function subscribeToPush(): Promise<PushStatus> {
+  if (await Notification.requestPermission() !== 'granted') return 'denied'
+
+  const response = await fetch('/hummiguard-ai/api/push')
+  if (!response.ok) return 'unconfigured'
+  const { publicKey }: { publicKey: string } = await response.json()
+
+  const registration = await navigator.serviceWorker.ready
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  })
+
+  const saved = await fetch('/hummiguard-ai/api/push/subscribe', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(subscription)
+  })
+  if (!saved.ok) {
+    await subscription.unsubscribe()
+    throw new Error('Failed to save push subscription')
+  }
+
+  return 'on'
+}
+
+export async function unsubscribeFromPush(): Promise<PushStatus> {
+  const registration = await navigator.serviceWorker.ready
+  const subscription = await registration.pushManager.getSubscription()
+  if (subscription) {
+    await fetch('/hummiguard-ai/api/push/subscribe', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ endpoint: subscription.endpoint })
+    })
+    await subscription.unsubscribe()
+  }
+  return 'off'
+}
@@ -0,0 +1,37 @@
+import type { PushSubscription } from 'web-push'
+import { readDocument, updateDocument } from './store'
+
+const DOCUMENT = 'push-subscriptions'
+
+export function isPushSubscription(value: unknown): value is PushSubscription {
+  if (typeof value !== 'object' || value === null) return false
+  const sub = value as Record<string, unknown>
+  const keys = sub.keys as Record<string, unknown> | undefined
+  return typeof sub.endpoint === 'string' &&
+    sub.endpoint.startsWith('https://') &&
+    typeof keys?.p256dh === 'string' &&
+    typeof keys?.auth === 'string'
+}
+
+export function listSubscriptions(): Promise<PushSubscription[]> {
+  return readDocument<PushSubscription[]>(DOCUMENT, [])
+}
+
+// Store a subscription, replacing any earlier one for the same endpoint
+export async function saveSubscription(subscription: PushSubscription): Promise<void> {
+  await updateDocument<PushSubscription[]>(DOCUMENT, [], subs => [
+    ...subs.filter(s => s.endpoint !== subscription.endpoint),
+    { endpoint: subscription.endpoint, keys: subscription.keys },
+  ])
+}
+
+export async function removeSubscription(endpoint: string): Promise<boolean> {
+  let found = false
+  await updateDocument<PushSubscription[]>(DOCUMENT, [], subs =>
+    subs.filter(s => {
+      if (s.endpoint === endpoint) found = true
+      return s.endpoint !== endpoint
+    })
+  )
+  return found
+}
@@ -0,0 +1,183 @@
+import { SAMPLE_HEIGHT, SAMPLE_WIDTH } from './frames'
+import type { FrameQuality, QualityIssue } from './types'
+
+/**
+ * Local image quality gate, run by the camera page and the camera agent on a
+ * small grayscale copy of each frame before it is sent. Frames that are too
+ * dark, blown out, washed out (a fogged lens or glare), blurry, or taken
+ * while the camera was moving only come back as low confidence or "feeder
+ * not visible" readings, so they are skipped instead of spending an API call.
+ * The metrics of frames that do go through are stored with their reading.
+ *
+ * Everything here works on plain luminance arrays so the browser and Node
+ * can share it.
+ */
+
+// Size of the copy brightness, contrast and sharpness are measured on
+export const QUALITY_SAMPLE_WIDTH = 320
+export const QUALITY_SAMPLE_HEIGHT = 240
+
+export const QUALITY_LIMITS = {
+  minBrightness: 25,
+  // Fraction of pixels at or above CLIPPED_LUMA
+  maxClipped: 0.4,
+  minContrast: 12,
+  minSharpness: 0.15,
+  // Fraction of the frame width
+  maxShift: 0.03,
+}
+
+const CLIPPED_LUMA = 250
+// Largest camera move looked for, in sample pixels
+const MAX_SHIFT_PIXELS = 6
+// A shifted alignment must match this much better than none to count as a move
+const SHIFT_IMPROVEMENT = 0.7
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  too_dark: 'too dark',
+  overexposed: 'overexposed',
+  low_contrast: 'lens fogged or washed out',
+  blurry: 'blurry',
+  camera_moved: 'camera moved',
+}
+
+// Issues likely gone in a few seconds (a gust, a bird on the feeder, refocusing)
+// are retried after QUALITY_RETRY_SECONDS, up to MAX_QUALITY_RETRIES times in a row
+export const TRANSIENT_ISSUES: QualityIssue[] = ['blurry', 'camera_moved']
+export const QUALITY_RETRY_SECONDS = 10
+export const MAX_QUALITY_RETRIES = 2
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+export function measureQuality(luma: ArrayLike<number>, width: number, height: number): Omit<FrameQuality, 'shift'> {
+  let sum = 0
+  let clipped = 0
+  for (let i = 0; i < luma.length; i++) {
+    sum += luma[i]
+    if (luma[i] >= CLIPPED_LUMA) clipped++
+  }
+  const mean = luma.length > 0 ? sum / luma.length : 0
+
+  let variance = 0
+  for (let i = 0; i < luma.length; i++) variance += (luma[i] - mean) ** 2
+  const contrast = luma.length > 0 ? Math.sqrt(variance / luma.length) : 0
+
+  // Spread of the Laplacian, i.e. how much fine edge detail there is
+  let lapSum = 0
+  let lapSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const lap = 4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width]
+      lapSum += lap
+      lapSquares += lap * lap
+      count++
+    }
+  }
+  const lapSpread = count > 0 ? Math.sqrt(Math.max(lapSquares / count - (lapSum / count) ** 2, 0)) : 0
+
+  return {
+    brightness: round(mean, 1),
+    contrast: round(contrast, 1),
+    sharpness: contrast > 0 ? round(lapSpread / contrast, 3) : 0,
+    clipped: luma.length > 0 ? round(clipped / luma.length, 3) : 0,
+  }
+}
+
+function alignmentError(a: ArrayLike<number>, b: ArrayLike<number>, width: number, height: number, dx: number, dy: number): number {
+  let total = 0
+  let count = 0
+  for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+    for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x++) {
+      total += Math.abs(a[(y + dy) * width + x + dx] - b[y * width + x])
+      count++
+    }
+  }
+  return count > 0 ? total / count : Infinity
+}
+
+/**
+ * How far the whole view slid between two samples of the same size, as a
+ * fraction of the width. Birds and shadows change parts of the frame but
+ * don't line up better at an offset, so they read as no shift.
+ */
+export function measureShift(current: ArrayLike<number>, previous: ArrayLike<number>, width: number, height: number): number {
+  if (current.length !== previous.length || current.length !== width * height) return 0
+
+  const still = alignmentError(current, previous, width, height, 0, 0)
+  let best = { dx: 0, dy: 0, error: still }
+  for (let dy = -MAX_SHIFT_PIXELS; dy <= MAX_SHIFT_PIXELS; dy++) {
+    for (let dx = -MAX_SHIFT_PIXELS; dx <= MAX_SHIFT_PIXELS; dx++) {
+      const error = alignmentError(current, previous, width, height, dx, dy)
+      if (error < best.error) best = { dx, dy, error }
+    }
+  }
+
+  if (best.error >= still * SHIFT_IMPROVEMENT) return 0
+  return round(Math.hypot(best.dx, best.dy) / width, 3)
+}
+
+// First reason the frame isn't worth analyzing, or null if it is
+export function qualityIssue(quality: FrameQuality): QualityIssue | null {
+  if (quality.brightness < QUALITY_LIMITS.minBrightness) return 'too_dark'
+  if (quality.clipped > QUALITY_LIMITS.maxClipped) return 'overexposed'
+  if (quality.contrast < QUALITY_LIMITS.minContrast) return 'low_contrast'
+  if (quality.sharpness < QUALITY_LIMITS.minSharpness) return 'blurry'
+  if (quality.shift !== null && quality.shift > QUALITY_LIMITS.maxShift) return 'camera_moved'
+  return null
+}
+
+const isMetric = (value: unknown, max: number) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max
+
+export function validateQuality(value: unknown): FrameQuality | null {
+  if (typeof value !== 'object' || value === null) return null
+  const q = value as Record<string, unknown>
+  if (!isMetric(q.brightness, 255) || !isMetric(q.contrast, 255) || !isMetric(q.sharpness, 100) || !isMetric(q.clipped, 1)) {
+    return null
+  }
+  const shift = q.shift ?? null
+  if (shift !== null && !isMetric(shift, 1)) return null
+  return {
+    brightness: q.brightness as number,
+    contrast: q.contrast as number,
+    sharpness: q.sharpness as number,
+    clipped: q.clipped as number,
+    shift: shift as number | null,
+  }
+}
+
+export interface QualityGate {
+  /**
+   * Measure a frame from its detail sample (QUALITY_SAMPLE_WIDTH x
+   * QUALITY_SAMPLE_HEIGHT) and motion sample (SAMPLE_WIDTH x SAMPLE_HEIGHT)
+   * and decide whether to send it. The recorded shift is against the last
+   * frame that passed; once a move is seen, the next frame must match the
+   * moved view, so the camera passes again as soon as it holds still.
+   */
+  check(detail: ArrayLike<number>, motion: ArrayLike<number>): { quality: FrameQuality, issue: QualityIssue | null }
+}
+
+export function createQualityGate(): QualityGate {
+  let passed: ArrayLike<number> | null = null
+  let moved: ArrayLike<number> | null = null
+
+  return {
+    check(detail, motion) {
+      const quality: FrameQuality = {
+        ...measureQuality(detail, QUALITY_SAMPLE_WIDTH, QUALITY_SAMPLE_HEIGHT),
+        shift: passed ? measureShift(motion, passed, SAMPLE_WIDTH, SAMPLE_HEIGHT) : null,
+      }
+      const settling = moved ? measureShift(motion, moved, SAMPLE_WIDTH, SAMPLE_HEIGHT) : quality.shift
+      const issue = qualityIssue({ ...quality, shift: settling })
+
+      if (issue === 'camera_moved') {
+        moved = motion
+      } else if (!issue) {
+        passed = motion
+        moved = null
+      }
+      return { quality, issue }
+    },
+  }
+}
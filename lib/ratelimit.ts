@@ -0,0 +1,79 @@
+import { updateDocument } from './store'
+
+/**
+ * Per-identity limits on analyze calls: a fixed one-minute window
+ * (RATE_LIMIT_PER_MINUTE) and a daily quota (DAILY_QUOTA) that resets at
+ * UTC midnight. Counters live in the local store so they survive restarts.
+ */
+
+const DOCUMENT = 'rate-limits'
+
+const DEFAULT_PER_MINUTE = 10
+const DEFAULT_DAILY_QUOTA = 2000
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+interface Counters {
+  minute_start: number
+  minute_count: number
+  day: string
+  day_count: number
+}
+
+type CounterStore = Record<string, Counters>
+
+export type LimitResult =
+  | { ok: true, remaining_today: number }
+  | { ok: false, code: 'rate_limited' | 'quota_exceeded', retry_after: number, message: string }
+
+function limits() {
+  return {
+    perMinute: Number(process.env.RATE_LIMIT_PER_MINUTE ?? DEFAULT_PER_MINUTE),
+    daily: Number(process.env.DAILY_QUOTA ?? DEFAULT_DAILY_QUOTA),
+  }
+}
+
+// Count one request for `identity` if it is within its limits
+export async function consumeRequest(identity: string, now = Date.now()): Promise<LimitResult> {
+  const { perMinute, daily } = limits()
+  const today = new Date(now).toISOString().slice(0, 10)
+  let result: LimitResult = { ok: true, remaining_today: daily }
+
+  await updateDocument<CounterStore>(DOCUMENT, {}, store => {
+    const current = store[identity]
+    const counters: Counters = {
+      minute_start: current && now - current.minute_start < MINUTE_MS ? current.minute_start : now,
+      minute_count: current && now - current.minute_start < MINUTE_MS ? current.minute_count : 0,
+      day: today,
+      day_count: current?.day === today ? current.day_count : 0,
+    }
+
+    if (counters.day_count >= daily) {
+      const midnight = Date.parse(`${today}T00:00:00.000Z`) + DAY_MS
+      result = {
+        ok: false,
+        code: 'quota_exceeded',
+        retry_after: Math.ceil((midnight - now) / 1000),
+        message: `Daily quota of ${daily} scans reached`,
+      }
+      return store
+    }
+    if (counters.minute_count >= perMinute) {
+      result = {
+        ok: false,
+        code: 'rate_limited',
+        retry_after: Math.ceil((counters.minute_start + MINUTE_MS - now) / 1000),
+        message: `Rate limit of ${perMinute} scans per minute exceeded`,
+      }
+      return store
+    }
+
+    counters.minute_count++
+    counters.day_count++
+    result = { ok: true, remaining_today: daily - counters.day_count }
+    return { ...store, [identity]: counters }
+  })
+
+  return result
+}
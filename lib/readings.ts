@@ -0,0 +1,164 @@
+import { createId, readDocument, updateDocument } from './store'
+import type { AnalysisResult, FrameQuality, Reading, ReadingCorrection } from './types'
+
+const DOCUMENT = 'readings'
+
+export interface ReadingQuery {
+  feederId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+export interface ReadingPage {
+  readings: Reading[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export const MAX_PAGE_SIZE = 500
+
+// How far back a client may date a frame it queued while offline
+const MAX_CAPTURE_AGE_MS = 24 * 60 * 60 * 1000
+// Allowance for client clocks running ahead
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+// Capture time sent with a frame, or null if malformed or out of range
+export function validateCapturedAt(value: unknown, now = Date.now()): Date | null {
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  const t = date.getTime()
+  if (isNaN(t) || t < now - MAX_CAPTURE_AGE_MS || t > now + MAX_CLOCK_SKEW_MS) return null
+  // Never date a reading in the future
+  return t > now ? new Date(now) : date
+}
+
+export async function saveReading(
+  feederId: string,
+  result: AnalysisResult,
+  smoothedLevel: number | null,
+  timestamp = new Date(),
+  quality: FrameQuality | null = null
+): Promise<Reading> {
+  const reading: Reading = {
+    id: createId(),
+    feeder_id: feederId,
+    level: result.level,
+    smoothed_level: smoothedLevel,
+    confidence: result.confidence,
+    description: result.description,
+    feeder_visible: result.feeder_visible,
+    birds: result.birds,
+    quality,
+    timestamp: timestamp.toISOString(),
+  }
+
+  await updateDocument<Reading[]>(DOCUMENT, [], readings => [...readings, reading])
+  return reading
+}
+
+// Add readings from an export, skipping ids already stored. Returns how many were added
+export async function importReadings(readings: Reading[]): Promise<number> {
+  let added = 0
+  await updateDocument<Reading[]>(DOCUMENT, [], current => {
+    const known = new Set(current.map(r => r.id))
+    const fresh = readings.filter(r => !known.has(r.id))
+    added = fresh.length
+    return [...current, ...fresh]
+  })
+  return added
+}
+
+// Readings matching the query, newest first
+export async function queryReadings(query: ReadingQuery = {}): Promise<ReadingPage> {
+  const limit = Math.min(Math.max(query.limit ?? 50, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(query.offset ?? 0, 0)
+  const from = query.from?.getTime() ?? -Infinity
+  const to = query.to?.getTime() ?? Infinity
+
+  const all = await readDocument<Reading[]>(DOCUMENT, [])
+  const matching = all
+    .filter(r => !query.feederId || r.feeder_id === query.feederId)
+    .filter(r => {
+      const t = Date.parse(r.timestamp)
+      return t >= from && t <= to
+    })
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+
+  return {
+    readings: matching.slice(offset, offset + limit),
+    total: matching.length,
+    limit,
+    offset,
+  }
+}
+
+export async function getReading(id: string): Promise<Reading | undefined> {
+  return (await readDocument<Reading[]>(DOCUMENT, [])).find(r => r.id === id)
+}
+
+// Set or (with null) clear the human correction on a reading
+export async function correctReading(id: string, correction: ReadingCorrection | null): Promise<Reading | undefined> {
+  let updated: Reading | undefined
+  await updateDocument<Reading[]>(DOCUMENT, [], readings =>
+    readings.map(r => {
+      if (r.id !== id) return r
+      updated = { ...r, correction }
+      return updated
+    })
+  )
+  return updated
+}
+
+// Every reading a person has corrected, oldest first
+export async function correctedReadings(feederId?: string): Promise<Reading[]> {
+  const all = await readDocument<Reading[]>(DOCUMENT, [])
+  return all
+    .filter(r => r.correction && (!feederId || r.feeder_id === feederId))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+}
+
+// Readings by id, for joining other records onto them
+export async function getReadings(ids: string[]): Promise<Map<string, Reading>> {
+  const wanted = new Set(ids)
+  const found = new Map<string, Reading>()
+  for (const reading of await readDocument<Reading[]>(DOCUMENT, [])) {
+    if (wanted.has(reading.id)) found.set(reading.id, reading)
+  }
+  return found
+}
+
+// All readings for a feeder (or every feeder when null) since `from`, oldest first
+export async function readingsSince(feederId: string | null, from: Date): Promise<Reading[]> {
+  const all = await readDocument<Reading[]>(DOCUMENT, [])
+  return all
+    .filter(r => (feederId === null || r.feeder_id === feederId) && Date.parse(r.timestamp) >= from.getTime())
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+}
+
+// The last usable reading for a feeder strictly before `timestamp`
+export async function previousReading(feederId: string, timestamp: string): Promise<Reading | null> {
+  const before = Date.parse(timestamp)
+  let previous: Reading | null = null
+  for (const reading of await readDocument<Reading[]>(DOCUMENT, [])) {
+    if (reading.feeder_id !== feederId || !reading.feeder_visible || reading.level < 0) continue
+    const t = Date.parse(reading.timestamp)
+    if (t < before && (!previous || t > Date.parse(previous.timestamp))) previous = reading
+  }
+  return previous
+}
+
+// Most recent reading with a visible feeder, keyed by feeder id
+export async function latestReadings(): Promise<Record<string, Reading>> {
+  const latest: Record<string, Reading> = {}
+  for (const reading of await readDocument<Reading[]>(DOCUMENT, [])) {
+    if (!reading.feeder_visible) continue
+    const current = latest[reading.feeder_id]
+    if (!current || Date.parse(reading.timestamp) > Date.parse(current.timestamp)) {
+      latest[reading.feeder_id] = reading
+    }
+  }
+  return latest
+}
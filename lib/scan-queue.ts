@@ -0,0 +1,100 @@
+// Browser-side queue of frames captured while the analyze API was unreachable.
+// Scans are kept in IndexedDB so they survive a reload, and uploaded oldest
+// first with their capture time once the connection returns.
+
+import type { FrameCalibration, FrameQuality } from './types'
+
+export interface QueuedScan {
+  id: string
+  // null for the server's default feeder
+  feeder_id: string | null
+  image: string
+  calibration?: FrameCalibration
+  quality?: FrameQuality
+  captured_at: string
+  attempts: number
+  // Epoch ms before which the scan should not be retried
+  next_attempt_at: number
+}
+
+export type NewScan = Pick<QueuedScan, 'feeder_id' | 'image' | 'calibration' | 'quality' | 'captured_at'>
+
+const DB_NAME = 'hummiguard'
+const DB_VERSION = 1
+const STORE = 'scan-queue'
+
+// Older scans are dropped; the server rejects them as well
+export const MAX_QUEUE_AGE_MS = 24 * 60 * 60 * 1000
+// Oldest scans are dropped beyond this, to bound storage
+const MAX_QUEUED = 200
+
+const BASE_BACKOFF_MS = 5 * 1000
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    database.catch(() => { database = null })
+  }
+  return database
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function isQueueSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+// Queued scans, oldest capture first
+export async function listQueuedScans(): Promise<QueuedScan[]> {
+  const scans = await withStore<QueuedScan[]>('readonly', store => store.getAll())
+  return scans.sort((a, b) => Date.parse(a.captured_at) - Date.parse(b.captured_at))
+}
+
+export async function countQueuedScans(): Promise<number> {
+  if (!isQueueSupported()) return 0
+  return withStore<number>('readonly', store => store.count())
+}
+
+export async function removeQueuedScan(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+export async function enqueueScan(scan: NewScan): Promise<void> {
+  await withStore('readwrite', store => store.put({
+    ...scan,
+    id: crypto.randomUUID(),
+    attempts: 0,
+    next_attempt_at: 0,
+  }))
+
+  const scans = await listQueuedScans()
+  for (const old of scans.slice(0, Math.max(scans.length - MAX_QUEUED, 0))) {
+    await removeQueuedScan(old.id)
+  }
+}
+
+// Push the next attempt back, by the server's retry_after or exponential backoff
+export async function deferQueuedScan(scan: QueuedScan, retryAfterSeconds?: number): Promise<void> {
+  const attempts = scan.attempts + 1
+  const delay = retryAfterSeconds !== undefined
+    ? retryAfterSeconds * 1000
+    : Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+  await withStore('readwrite', store => store.put({ ...scan, attempts, next_attempt_at: Date.now() + delay }))
+}
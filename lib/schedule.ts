@@ -0,0 +1,189 @@
+import type { Feeder, FeederSchedule, ScheduleStatus, TimeWindow } from './types'
+
+/**
+ * Monitoring schedules. A feeder is scanned around the clock, inside fixed
+ * daily hours, or from sunrise to sunset, with the sun times computed locally
+ * from HUMMIGUARD_LATITUDE and HUMMIGUARD_LONGITUDE. Quiet hours are
+ * separate: readings are still taken and recorded, but the alarm sound and
+ * notifications are held back until they end.
+ *
+ * Clock times are read in HUMMIGUARD_TIMEZONE (an IANA zone such as
+ * America/Denver), or in the server's own zone when that is unset.
+ */
+
+export interface Location {
+  latitude: number
+  longitude: number
+}
+
+export interface SunTimes {
+  sunrise: Date | null
+  sunset: Date | null
+  // Set when the sun doesn't rise or doesn't set that day
+  polar: 'day' | 'night' | null
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const DAY_MINUTES = 24 * 60
+
+export const DEFAULT_DAYLIGHT_MARGIN_MINUTES = 30
+const MAX_DAYLIGHT_MARGIN_MINUTES = 180
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export function configuredLocation(): Location | null {
+  const { HUMMIGUARD_LATITUDE, HUMMIGUARD_LONGITUDE } = process.env
+  if (!HUMMIGUARD_LATITUDE || !HUMMIGUARD_LONGITUDE) return null
+
+  const latitude = Number(HUMMIGUARD_LATITUDE)
+  const longitude = Number(HUMMIGUARD_LONGITUDE)
+  if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) return null
+  return { latitude, longitude }
+}
+
+function validateWindow(value: unknown): TimeWindow | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { start, end } = value as Record<string, unknown>
+  if (typeof start !== 'string' || typeof end !== 'string') return null
+  if (!CLOCK_TIME.test(start) || !CLOCK_TIME.test(end) || start === end) return null
+  return { start, end }
+}
+
+export function validateSchedule(value: unknown): FeederSchedule | null {
+  if (typeof value !== 'object' || value === null) return null
+  const input = value as Record<string, unknown>
+
+  let schedule: FeederSchedule
+  if (input.mode === 'always') {
+    schedule = { mode: 'always' }
+  } else if (input.mode === 'hours') {
+    const hours = validateWindow(input.hours)
+    if (!hours) return null
+    schedule = { mode: 'hours', hours }
+  } else if (input.mode === 'daylight') {
+    const margin = input.daylight_margin_minutes ?? DEFAULT_DAYLIGHT_MARGIN_MINUTES
+    if (typeof margin !== 'number' || !(margin >= 0 && margin <= MAX_DAYLIGHT_MARGIN_MINUTES)) return null
+    schedule = { mode: 'daylight', daylight_margin_minutes: margin }
+  } else {
+    return null
+  }
+
+  if (input.quiet_hours !== undefined && input.quiet_hours !== null) {
+    const quietHours = validateWindow(input.quiet_hours)
+    if (!quietHours) return null
+    schedule.quiet_hours = quietHours
+  }
+  return schedule
+}
+
+// Minutes since midnight on the configured clock
+function minuteOfDay(date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: process.env.HUMMIGUARD_TIMEZONE || undefined,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  return part('hour') * 60 + part('minute')
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Whether `now` is inside a daily window, and when that next changes. Around a
+// DST switch the change may be an hour off; the status is simply asked again then
+function windowState(window: TimeWindow, now: Date): { inside: boolean, changes_at: Date } {
+  const minute = minuteOfDay(now)
+  const start = toMinutes(window.start)
+  const end = toMinutes(window.end)
+  const inside = start < end ? minute >= start && minute < end : minute >= start || minute < end
+
+  const ahead = ((inside ? end : start) - minute + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES
+  const minuteStart = now.getTime() - now.getTime() % MINUTE_MS
+  return { inside, changes_at: new Date(minuteStart + ahead * MINUTE_MS) }
+}
+
+const RAD = Math.PI / 180
+const J2000 = 2451545
+const UNIX_EPOCH_JD = 2440587.5
+// Sun's upper limb on the horizon, allowing for refraction
+const SUNRISE_ALTITUDE = -0.833
+const EARTH_TILT = 23.4397
+
+/**
+ * Sunrise and sunset on the local solar day containing `date`, from the
+ * standard sunrise equation; good to a minute or two outside the polar
+ * circles.
+ */
+export function sunTimes(date: Date, { latitude, longitude }: Location): SunTimes {
+  const julianDate = date.getTime() / DAY_MS + UNIX_EPOCH_JD
+  // Days since J2000 at local mean solar noon
+  const noon = Math.round(julianDate - J2000 + longitude / 360) - longitude / 360
+
+  const anomaly = ((357.5291 + 0.98560028 * noon) % 360) * RAD
+  const center = 1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly)
+  const eclipticLongitude = ((anomaly / RAD + center + 180 + 102.9372) % 360) * RAD
+  const transit = J2000 + noon + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * eclipticLongitude)
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(EARTH_TILT * RAD))
+  const cosHourAngle = (Math.sin(SUNRISE_ALTITUDE * RAD) - Math.sin(latitude * RAD) * Math.sin(declination)) /
+    (Math.cos(latitude * RAD) * Math.cos(declination))
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, polar: 'night' }
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, polar: 'day' }
+
+  const halfDay = Math.acos(cosHourAngle) / RAD / 360
+  const toDate = (julian: number) => new Date((julian - UNIX_EPOCH_JD) * DAY_MS)
+  return { sunrise: toDate(transit - halfDay), sunset: toDate(transit + halfDay), polar: null }
+}
+
+// Sunrise to sunset widened by the margin; on polar days and nights the state holds all day
+function daylightState(location: Location, marginMinutes: number, now: Date): { inside: boolean, changes_at: Date | null } {
+  const margin = marginMinutes * MINUTE_MS
+  const today = sunTimes(now, location)
+  if (!today.sunrise || !today.sunset) {
+    return { inside: today.polar === 'day', changes_at: null }
+  }
+
+  const start = today.sunrise.getTime() - margin
+  const end = today.sunset.getTime() + margin
+  if (now.getTime() < start) return { inside: false, changes_at: new Date(start) }
+  if (now.getTime() < end) return { inside: true, changes_at: new Date(end) }
+
+  const tomorrow = sunTimes(new Date(now.getTime() + DAY_MS), location)
+  return {
+    inside: false,
+    changes_at: tomorrow.sunrise ? new Date(tomorrow.sunrise.getTime() - margin) : null,
+  }
+}
+
+export function scheduleStatus(feeder: Feeder, now = new Date()): ScheduleStatus {
+  const schedule = feeder.schedule
+  const location = configuredLocation()
+  const sun = location ? sunTimes(now, location) : null
+
+  // Without a location a daylight schedule can't be followed, so it scans around the clock
+  let active = { inside: true, changes_at: null as Date | null }
+  if (schedule?.mode === 'hours' && schedule.hours) {
+    active = windowState(schedule.hours, now)
+  } else if (schedule?.mode === 'daylight' && location) {
+    active = daylightState(location, schedule.daylight_margin_minutes ?? DEFAULT_DAYLIGHT_MARGIN_MINUTES, now)
+  }
+
+  const quiet = schedule?.quiet_hours
+    ? windowState(schedule.quiet_hours, now)
+    : { inside: false, changes_at: null }
+
+  const changes = [active.changes_at, quiet.changes_at].filter((d): d is Date => d !== null)
+  return {
+    active: active.inside,
+    resumes_at: !active.inside && active.changes_at ? active.changes_at.toISOString() : null,
+    quiet: quiet.inside,
+    next_change_at: changes.length > 0 ? new Date(Math.min(...changes.map(d => d.getTime()))).toISOString() : null,
+    sunrise: sun?.sunrise?.toISOString() ?? null,
+    sunset: sun?.sunset?.toISOString() ?? null,
+  }
+}
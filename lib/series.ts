@@ -0,0 +1,58 @@
+import { readingsSince } from './readings'
+import type { Confidence, Reading, SeriesPoint } from './types'
+
+export const DEFAULT_SERIES_POINTS = 400
+export const MAX_SERIES_POINTS = 2000
+
+function mostCommon(confidences: Confidence[]): Confidence {
+  const counts = new Map<Confidence, number>()
+  for (const c of confidences) counts.set(c, (counts.get(c) || 0) + 1)
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0]
+}
+
+function average(values: number[]): number {
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+}
+
+function fold(readings: Reading[], timestamp: string): SeriesPoint {
+  const levels = readings.map(r => r.level)
+  const smoothed = readings.map(r => r.smoothed_level).filter((l): l is number => typeof l === 'number')
+  return {
+    reading_id: readings[readings.length - 1].id,
+    timestamp,
+    level: average(levels),
+    smoothed_level: smoothed.length > 0 ? average(smoothed) : null,
+    min: Math.min(...levels),
+    max: Math.max(...levels),
+    confidence: mostCommon(readings.map(r => r.confidence)),
+    count: readings.length,
+  }
+}
+
+/**
+ * Visible readings for a feeder in the range, oldest first. Past
+ * `maxPoints` readings the range is split into equal time buckets and each
+ * bucket is averaged, keeping its min and max so dips are not lost.
+ */
+export async function levelSeries(feederId: string, from: Date, to: Date, maxPoints = DEFAULT_SERIES_POINTS): Promise<SeriesPoint[]> {
+  const readings = (await readingsSince(feederId, from))
+    .filter(r => r.feeder_visible && r.level >= 0 && Date.parse(r.timestamp) <= to.getTime())
+
+  if (readings.length <= maxPoints) {
+    return readings.map(r => fold([r], r.timestamp))
+  }
+
+  const start = from.getTime()
+  const size = (to.getTime() - start) / maxPoints
+  const buckets = new Map<number, Reading[]>()
+  for (const reading of readings) {
+    const index = Math.min(Math.floor((Date.parse(reading.timestamp) - start) / size), maxPoints - 1)
+    const bucket = buckets.get(index)
+    if (bucket) bucket.push(reading)
+    else buckets.set(index, [reading])
+  }
+
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, bucket]) => fold(bucket, new Date(start + (index + 0.5) * size).toISOString()))
+}
@@ -0,0 +1,85 @@
+import { REFILL_JUMP } from './events'
+import { updateDocument } from './store'
+import type { AnalysisResult, Confidence } from './types'
+
+/**
+ * Temporal smoothing of level readings. Each feeder keeps a running
+ * estimate that moves towards new readings in proportion to their
+ * confidence. A reading far from the estimate is held back as a suspected
+ * outlier until enough consecutive readings agree with it; a large
+ * confident jump upwards is accepted straight away as a refill.
+ */
+
+const DOCUMENT = 'smoothing-state'
+
+// How far a reading may sit from the estimate before it is suspect
+const OUTLIER_DELTA = 15
+// Suspect readings that must agree before the estimate jumps to them
+const OUTLIER_CONFIRMATIONS = 2
+// Maximum step towards a new high-confidence reading
+const SMOOTHING_FACTOR = 0.5
+
+const CONFIDENCE_WEIGHTS: Record<Confidence, number> = {
+  high: 1,
+  medium: 0.6,
+  low: 0.25,
+}
+
+interface SmoothingState {
+  level: number
+  // Recent readings that disagreed with the estimate
+  pending: number[]
+}
+
+type SmoothingStates = Record<string, SmoothingState>
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+// Next state for a raw reading, without side effects
+export function smoothLevel(state: SmoothingState | undefined, level: number, confidence: Confidence): SmoothingState {
+  if (!state) return { level, pending: [] }
+
+  const delta = level - state.level
+
+  if (Math.abs(delta) <= OUTLIER_DELTA) {
+    const weight = SMOOTHING_FACTOR * CONFIDENCE_WEIGHTS[confidence]
+    return { level: state.level + weight * delta, pending: [] }
+  }
+
+  if (delta >= REFILL_JUMP && confidence !== 'low') {
+    return { level, pending: [] }
+  }
+
+  // Keep only suspects that agree with this one
+  const pending = [...state.pending.filter(p => Math.abs(p - level) <= OUTLIER_DELTA), level]
+  if (pending.length >= OUTLIER_CONFIRMATIONS) {
+    return { level: mean(pending), pending: [] }
+  }
+  return { level: state.level, pending }
+}
+
+/**
+ * Update the feeder's estimate with a new analysis and return the smoothed
+ * level, or null when the reading carries no level.
+ */
+export async function smoothReading(feederId: string, result: AnalysisResult): Promise<number | null> {
+  if (!result.feeder_visible || result.level < 0) return null
+
+  const states = await updateDocument<SmoothingStates>(DOCUMENT, {}, current => ({
+    ...current,
+    [feederId]: smoothLevel(current[feederId], result.level, result.confidence),
+  }))
+
+  return Math.round(states[feederId].level)
+}
+
+// Start the estimate over, e.g. after a manual refill
+export async function resetSmoothing(feederId: string): Promise<void> {
+  await updateDocument<SmoothingStates>(DOCUMENT, {}, current => {
+    const next = { ...current }
+    delete next[feederId]
+    return next
+  })
+}
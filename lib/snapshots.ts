@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs'
+import sharp from 'sharp'
+import { dataPath, readDocument, updateDocument } from './store'
+import type { FrameCalibration, Reading, Snapshot } from './types'
+
+/**
+ * Optional archive of analyzed frames (SNAPSHOTS_ENABLED=true). Each reading
+ * keeps its original upload plus a small JPEG thumbnail under
+ * data/snapshots, indexed in the `snapshots` document. After every save the
+ * archive is pruned to SNAPSHOT_MAX_AGE_DAYS and then, oldest first, to
+ * SNAPSHOT_MAX_MB on disk. Readings themselves are never pruned.
+ */
+
+const DOCUMENT = 'snapshots'
+const DIRECTORY = 'snapshots'
+
+const DEFAULT_MAX_AGE_DAYS = 30
+const DEFAULT_MAX_MB = 500
+
+const THUMB_WIDTH = 320
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+export type SnapshotSize = 'thumb' | 'full'
+
+export interface SnapshotQuery {
+  feederId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+export function snapshotsEnabled(): boolean {
+  return process.env.SNAPSHOTS_ENABLED === 'true'
+}
+
+function retention() {
+  return {
+    maxAgeMs: Number(process.env.SNAPSHOT_MAX_AGE_DAYS ?? DEFAULT_MAX_AGE_DAYS) * DAY_MS,
+    maxBytes: Number(process.env.SNAPSHOT_MAX_MB ?? DEFAULT_MAX_MB) * 1024 * 1024,
+  }
+}
+
+function filePath(snapshot: Pick<Snapshot, 'reading_id' | 'media_type'>, size: SnapshotSize): string {
+  return size === 'thumb'
+    ? dataPath(DIRECTORY, `${snapshot.reading_id}.thumb.jpg`)
+    : dataPath(DIRECTORY, `${snapshot.reading_id}.${EXTENSIONS[snapshot.media_type] || 'bin'}`)
+}
+
+async function removeFiles(snapshot: Snapshot): Promise<void> {
+  await Promise.all(
+    (['thumb', 'full'] as SnapshotSize[]).map(size =>
+      fs.rm(filePath(snapshot, size), { force: true })
+    )
+  )
+}
+
+// Store the frame behind a reading and prune the archive
+export async function archiveSnapshot(
+  reading: Reading,
+  image: Buffer,
+  mediaType: string,
+  calibration: FrameCalibration | null = null
+): Promise<Snapshot> {
+  const { data: thumbnail, info } = await sharp(image)
+    .rotate()
+    .resize({ width: THUMB_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 70 })
+    .toBuffer({ resolveWithObject: true })
+  const { width = info.width, height = info.height } = await sharp(image).metadata()
+
+  const snapshot: Snapshot = {
+    reading_id: reading.id,
+    feeder_id: reading.feeder_id,
+    media_type: mediaType,
+    width,
+    height,
+    bytes: image.length,
+    thumb_bytes: thumbnail.length,
+    calibration,
+    timestamp: reading.timestamp,
+  }
+
+  await fs.mkdir(dataPath(DIRECTORY), { recursive: true })
+  await fs.writeFile(filePath(snapshot, 'full'), image)
+  await fs.writeFile(filePath(snapshot, 'thumb'), thumbnail)
+  await updateDocument<Snapshot[]>(DOCUMENT, [], snapshots => [...snapshots, snapshot])
+
+  await pruneSnapshots()
+  return snapshot
+}
+
+// Drop snapshots past the age limit, then the oldest until under the size limit
+export async function pruneSnapshots(now = Date.now()): Promise<number> {
+  const { maxAgeMs, maxBytes } = retention()
+  let expired: Snapshot[] = []
+
+  await updateDocument<Snapshot[]>(DOCUMENT, [], snapshots => {
+    const sorted = snapshots.slice().sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+    let total = sorted.reduce((sum, s) => sum + s.bytes + s.thumb_bytes, 0)
+    const kept: Snapshot[] = []
+    expired = []
+    for (const snapshot of sorted) {
+      if (now - Date.parse(snapshot.timestamp) > maxAgeMs || total > maxBytes) {
+        expired.push(snapshot)
+        total -= snapshot.bytes + snapshot.thumb_bytes
+      } else {
+        kept.push(snapshot)
+      }
+    }
+    return expired.length > 0 ? kept : snapshots
+  })
+
+  await Promise.all(expired.map(removeFiles))
+  return expired.length
+}
+
+export async function getSnapshot(readingId: string): Promise<Snapshot | undefined> {
+  return (await readDocument<Snapshot[]>(DOCUMENT, [])).find(s => s.reading_id === readingId)
+}
+
+// Snapshots matching the query, newest first
+export async function listSnapshots(query: SnapshotQuery = {}): Promise<{ snapshots: Snapshot[], total: number }> {
+  const from = query.from?.getTime() ?? -Infinity
+  const to = query.to?.getTime() ?? Infinity
+  const offset = query.offset ?? 0
+
+  const matching = (await readDocument<Snapshot[]>(DOCUMENT, []))
+    .filter(s => !query.feederId || s.feeder_id === query.feederId)
+    .filter(s => {
+      const t = Date.parse(s.timestamp)
+      return t >= from && t <= to
+    })
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+
+  return {
+    snapshots: matching.slice(offset, offset + (query.limit ?? matching.length)),
+    total: matching.length,
+  }
+}
+
+// Image bytes for a snapshot, or null if the file is gone
+export async function readSnapshotImage(snapshot: Snapshot, size: SnapshotSize): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath(snapshot, size))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
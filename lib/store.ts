@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+/**
+ * Tiny embedded JSON store. Each document lives in its own file under the
+ * data directory and every write goes through a per-document queue, so
+ * concurrent requests never interleave a read-modify-write.
+ */
+
+const DATA_DIR = process.env.HUMMIGUARD_DATA_DIR || path.join(process.cwd(), 'data')
+
+const queues = new Map<string, Promise<unknown>>()
+
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments)
+}
+
+export function createId(): string {
+  return randomUUID()
+}
+
+async function readFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(dataPath(`${name}.json`), 'utf8')
+    return JSON.parse(raw) as T
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw err
+  }
+}
+
+async function writeFile<T>(name: string, value: T): Promise<void> {
+  const target = dataPath(`${name}.json`)
+  const tmp = `${target}.${process.pid}.tmp`
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  await fs.writeFile(tmp, JSON.stringify(value))
+  await fs.rename(tmp, target)
+}
+
+function enqueue<R>(name: string, task: () => Promise<R>): Promise<R> {
+  const previous = queues.get(name) || Promise.resolve()
+  const next = previous.then(task, task)
+  queues.set(name, next.catch(() => undefined))
+  return next
+}
+
+// Read a document, waiting for any pending writes to it first
+export function readDocument<T>(name: string, fallback: T): Promise<T> {
+  return enqueue(name, () => readFile(name, fallback))
+}
+
+// Apply `mutate` to a document and persist the result
+export function updateDocument<T>(
+  name: string,
+  fallback: T,
+  mutate: (current: T) => T
+): Promise<T> {
+  return enqueue(name, async () => {
+    const next = mutate(await readFile(name, fallback))
+    await writeFile(name, next)
+    return next
+  })
+}
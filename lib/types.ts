@@ -0,0 +1,293 @@
+export type Confidence = 'high' | 'medium' | 'low'
+
+export interface BirdSighting {
+  count: number
+  // Best guess at the species, with its own confidence
+  species: string | null
+  species_confidence: Confidence | null
+}
+
+export interface AnalysisResult {
+  level: number
+  confidence: Confidence
+  description: string
+  feeder_visible: boolean
+  birds: BirdSighting
+}
+
+// What a person says the reading should have been; the model's values stay on the reading
+export interface ReadingCorrection {
+  // -1 when the feeder is not visible
+  level: number
+  feeder_visible: boolean
+  note: string
+  corrected_by: string
+  corrected_at: string
+}
+
+// Local measurements of the analyzed frame, taken before it was sent
+export interface FrameQuality {
+  // Mean luminance, 0-255
+  brightness: number
+  // Standard deviation of luminance, 0-255
+  contrast: number
+  // Edge detail relative to contrast; out of focus or smeared frames score low
+  sharpness: number
+  // Fraction of blown-out pixels
+  clipped: number
+  // How far the view moved since the previous scan, as a fraction of the
+  // frame width; null for the first scan
+  shift: number | null
+}
+
+export type QualityIssue = 'too_dark' | 'overexposed' | 'low_contrast' | 'blurry' | 'camera_moved'
+
+export interface Reading extends AnalysisResult {
+  id: string
+  feeder_id: string
+  // Confidence-weighted estimate after outlier rejection; `level` stays raw
+  smoothed_level: number | null
+  correction?: ReadingCorrection | null
+  // Absent for readings from clients that don't measure it
+  quality?: FrameQuality | null
+  timestamp: string
+}
+
+// A reading, or the average of several when a range is downsampled for charting
+export interface SeriesPoint {
+  // The latest reading folded into this point
+  reading_id: string
+  timestamp: string
+  level: number
+  smoothed_level: number | null
+  // Lowest and highest raw level folded into this point
+  min: number
+  max: number
+  // Most common confidence among the folded readings
+  confidence: Confidence
+  count: number
+}
+
+// Archived frame for a reading; files live under data/snapshots
+export interface Snapshot {
+  reading_id: string
+  feeder_id: string
+  media_type: string
+  width: number
+  height: number
+  // Size of the original and the thumbnail on disk
+  bytes: number
+  thumb_bytes: number
+  // Lines the frame was analyzed with, when it was a calibrated crop
+  calibration?: FrameCalibration | null
+  timestamp: string
+}
+
+export interface Visit {
+  feeder_id: string
+  reading_id: string
+  count: number
+  species: string | null
+  species_confidence: Confidence | null
+  timestamp: string
+}
+
+export interface VisitBucket {
+  start: string
+  // Scans in this bucket, and how many of them saw birds
+  scans: number
+  visits: number
+  birds: number
+  species: Record<string, number>
+}
+
+export type FeederEventType = 'refill' | 'cleaning'
+
+export interface FeederEvent {
+  id: string
+  feeder_id: string
+  type: FeederEventType
+  // Detected from a level jump, or logged by someone at the feeder
+  source: 'auto' | 'manual'
+  level_before: number | null
+  level_after: number | null
+  timestamp: string
+}
+
+export interface NectarAge {
+  hours: number
+  max_hours: number
+  stale: boolean
+}
+
+export interface AnalyzeResponse extends Reading {
+  alert_active: boolean
+  forecast: Forecast | null
+  refill: FeederEvent | null
+  nectar_age: NectarAge | null
+}
+
+// Low nectar alarm state, shared by every camera page and monitor
+export interface AlertStatus {
+  feeder_id: string
+  active: boolean
+  muted: boolean
+}
+
+// Updates fanned out to live subscribers
+export type LiveEvent =
+  | { type: 'reading', reading: AnalyzeResponse }
+  | { type: 'alert', alert: AlertStatus }
+
+// First message on a live stream: where the feeder stands right now
+export interface LiveSnapshot {
+  feeder: Feeder
+  latest: Reading | null
+  alert: AlertStatus
+}
+
+// Empty and full lines as fractions of the analyzed image height, from the top
+export interface FrameCalibration {
+  empty_line: number
+  full_line: number
+}
+
+export interface FeederCalibration extends FrameCalibration {
+  // Reservoir box as fractions of the full video frame
+  roi: {
+    x: number
+    y: number
+    width: number
+    height: number
+  }
+}
+
+// Daily window of local "HH:MM" times; an end before the start runs past midnight
+export interface TimeWindow {
+  start: string
+  end: string
+}
+
+export type ScheduleMode = 'always' | 'hours' | 'daylight'
+
+export interface FeederSchedule {
+  // When timed scans run: around the clock, inside `hours`, or sunrise to sunset
+  mode: ScheduleMode
+  hours?: TimeWindow
+  // Daylight mode starts this long before sunrise and runs as long after sunset
+  daylight_margin_minutes?: number
+  // Readings are still recorded, but the alarm and notifications wait until after
+  quiet_hours?: TimeWindow | null
+}
+
+// Where a feeder's schedule stands right now
+export interface ScheduleStatus {
+  // Whether timed scans should run
+  active: boolean
+  // When scanning next starts, while inactive
+  resumes_at: string | null
+  quiet: boolean
+  // Next time `active` or `quiet` flips, null if neither ever does
+  next_change_at: string | null
+  // Today's sun times, when a location is configured
+  sunrise: string | null
+  sunset: string | null
+}
+
+export interface Feeder {
+  id: string
+  name: string
+  capacity_ml: number
+  threshold: number
+  location: string
+  // Warn when the nectar is older than this, whatever the level
+  nectar_max_age_hours?: number
+  calibration?: FeederCalibration | null
+  schedule?: FeederSchedule | null
+  created_at: string
+}
+
+export interface Forecast {
+  // Percentage points consumed per hour
+  rate_per_hour: number
+  estimated_level: number
+  // ISO timestamps, null when the level is not dropping
+  threshold_at: string | null
+  empty_at: string | null
+  based_on: number
+  since: string
+}
+
+export interface FeederSummary extends Feeder {
+  latest: Reading | null
+  forecast: Forecast | null
+  last_refill: FeederEvent | null
+  nectar_age: NectarAge | null
+}
+
+export type AlertKind = 'low_nectar' | 'recovered' | 'nectar_age'
+
+export interface AlertEvent {
+  id: string
+  feeder_id: string
+  kind: AlertKind
+  // Null for nectar age warnings, which are not tied to a reading
+  level: number | null
+  reading_id: string | null
+  notified: boolean
+  timestamp: string
+}
+
+// 'ok' or the AnalysisErrorCode the call failed with
+export type UsageOutcome = 'ok' | 'unparseable' | 'invalid_schema' | 'upstream_error'
+
+// One analyze call, summed over its upstream attempts
+export interface UsageRecord {
+  id: string
+  feeder_id: string
+  identity: string
+  provider: string
+  model: string | null
+  attempts: number
+  input_tokens: number
+  output_tokens: number
+  latency_ms: number
+  outcome: UsageOutcome
+  cost_usd: number
+  timestamp: string
+}
+
+export interface UsageDay {
+  // Local date, YYYY-MM-DD
+  date: string
+  calls: number
+  failures: number
+  input_tokens: number
+  output_tokens: number
+  avg_latency_ms: number | null
+  cost_usd: number
+}
+
+export interface UsageBudget {
+  month_to_date_usd: number
+  // Null when no MONTHLY_BUDGET_USD is configured
+  budget_usd: number | null
+  paused: boolean
+  // Start of next month, when a paused budget frees up again
+  resumes_at: string | null
+}
+
+export interface AccuracyBucket {
+  // Corrected readings in the bucket
+  count: number
+  // Mean absolute error in level points, over readings both sides saw the feeder in
+  mae: number | null
+  // Share of readings where the model agreed on feeder_visible
+  visibility_agreement: number | null
+}
+
+export interface AccuracyReport {
+  overall: AccuracyBucket
+  by_feeder: Record<string, AccuracyBucket>
+  by_confidence: Partial<Record<Confidence, AccuracyBucket>>
+}
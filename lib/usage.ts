@@ -0,0 +1,163 @@
+import { createId, readDocument, updateDocument } from './store'
+import type { UsageBudget, UsageDay, UsageOutcome, UsageRecord } from './types'
+import type { VisionProvider } from './vision'
+
+/**
+ * Usage and cost accounting for analyze calls. Each call records the tokens
+ * it used across all of its attempts, its latency, model and outcome. Cost
+ * is estimated from per-model list prices (or PRICE_INPUT_PER_MTOK /
+ * PRICE_OUTPUT_PER_MTOK), and once the estimated spend for the current UTC
+ * month reaches MONTHLY_BUDGET_USD, analysis is paused until the month ends.
+ */
+
+const DOCUMENT = 'usage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// USD per million input / output tokens, matched by model name prefix
+const PRICES: [string, number, number][] = [
+  ['claude-opus-4-5', 5, 25],
+  ['claude-opus', 15, 75],
+  ['claude-sonnet', 3, 15],
+  ['claude-3-7-sonnet', 3, 15],
+  ['claude-3-5-sonnet', 3, 15],
+  ['claude-haiku-4-5', 1, 5],
+  ['claude-3-5-haiku', 0.8, 4],
+]
+
+// Provider wrapper that tallies every upstream attempt
+export interface Meter {
+  provider: VisionProvider
+  attempts: number
+  input_tokens: number
+  output_tokens: number
+  model: string | null
+}
+
+export function meterProvider(provider: VisionProvider): Meter {
+  const meter: Meter = {
+    attempts: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    model: null,
+    provider: {
+      name: provider.name,
+      async analyze(request) {
+        meter.attempts++
+        const response = await provider.analyze(request)
+        meter.model = response.model
+        meter.input_tokens += response.usage?.input_tokens ?? 0
+        meter.output_tokens += response.usage?.output_tokens ?? 0
+        return response
+      },
+    },
+  }
+  return meter
+}
+
+function pricing(model: string | null): [number, number] {
+  const input = process.env.PRICE_INPUT_PER_MTOK
+  const output = process.env.PRICE_OUTPUT_PER_MTOK
+  if (input && output) return [Number(input), Number(output)]
+
+  const match = model ? PRICES.find(([prefix]) => model.startsWith(prefix)) : undefined
+  return match ? [match[1], match[2]] : [0, 0]
+}
+
+export function estimateCost(model: string | null, inputTokens: number, outputTokens: number): number {
+  const [input, output] = pricing(model)
+  return (inputTokens * input + outputTokens * output) / 1_000_000
+}
+
+export interface UsageEntry {
+  feederId: string
+  identity: string
+  meter: Meter
+  latencyMs: number
+  outcome: UsageOutcome
+}
+
+export async function recordUsage({ feederId, identity, meter, latencyMs, outcome }: UsageEntry): Promise<UsageRecord> {
+  const record: UsageRecord = {
+    id: createId(),
+    feeder_id: feederId,
+    identity,
+    provider: meter.provider.name,
+    model: meter.model,
+    attempts: meter.attempts,
+    input_tokens: meter.input_tokens,
+    output_tokens: meter.output_tokens,
+    latency_ms: Math.round(latencyMs),
+    outcome,
+    cost_usd: estimateCost(meter.model, meter.input_tokens, meter.output_tokens),
+    timestamp: new Date().toISOString(),
+  }
+  await updateDocument<UsageRecord[]>(DOCUMENT, [], records => [...records, record])
+  return record
+}
+
+// Usage records in the range, oldest first
+export async function listUsage(from: Date, to: Date): Promise<UsageRecord[]> {
+  const records = await readDocument<UsageRecord[]>(DOCUMENT, [])
+  return records.filter(r => {
+    const t = Date.parse(r.timestamp)
+    return t >= from.getTime() && t <= to.getTime()
+  })
+}
+
+// Per-day totals over the range; utcOffset in minutes sets local day boundaries
+export async function summarizeUsage(from: Date, to: Date, utcOffset: number): Promise<UsageDay[]> {
+  const offset = utcOffset * 60 * 1000
+  const dayStart = (t: number) => Math.floor((t + offset) / DAY_MS) * DAY_MS - offset
+
+  const days = new Map<number, UsageDay & { latency_total: number }>()
+  for (let t = dayStart(from.getTime()); t <= to.getTime(); t += DAY_MS) {
+    days.set(t, {
+      date: new Date(t + offset).toISOString().slice(0, 10),
+      calls: 0,
+      failures: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      avg_latency_ms: null,
+      cost_usd: 0,
+      latency_total: 0,
+    })
+  }
+
+  for (const record of await listUsage(from, to)) {
+    const day = days.get(dayStart(Date.parse(record.timestamp)))
+    if (!day) continue
+    day.calls++
+    if (record.outcome !== 'ok') day.failures++
+    day.input_tokens += record.input_tokens
+    day.output_tokens += record.output_tokens
+    day.cost_usd += record.cost_usd
+    day.latency_total += record.latency_ms
+  }
+
+  return Array.from(days.values()).map(({ latency_total, ...day }) => ({
+    ...day,
+    avg_latency_ms: day.calls > 0 ? Math.round(latency_total / day.calls) : null,
+  }))
+}
+
+export function monthlyBudget(): number | null {
+  const budget = Number(process.env.MONTHLY_BUDGET_USD)
+  return budget > 0 ? budget : null
+}
+
+// Spend so far this UTC month against the budget
+export async function budgetStatus(now = new Date()): Promise<UsageBudget> {
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  const spent = (await listUsage(monthStart, now)).reduce((sum, r) => sum + r.cost_usd, 0)
+  const budget = monthlyBudget()
+  const paused = budget !== null && spent >= budget
+
+  return {
+    month_to_date_usd: spent,
+    budget_usd: budget,
+    paused,
+    resumes_at: paused ? nextMonth.toISOString() : null,
+  }
+}
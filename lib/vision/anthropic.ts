@@ -0,0 +1,91 @@
+import { VisionProvider, VisionProviderError, VisionRequest, VisionResponse } from './types'
+
+interface AnthropicContent {
+  type: string
+  text?: string
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContent[]
+  model?: string
+  usage?: {
+    input_tokens: number
+    output_tokens: number
+  }
+  error?: {
+    message: string
+  }
+}
+
+const API_URL = 'https://api.anthropic.com/v1/messages'
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+const DEFAULT_MAX_TOKENS = 1000
+
+// A model given here overrides the one requested by the prompt version
+export function createAnthropicProvider(apiKey: string, modelOverride?: string): VisionProvider {
+  return {
+    name: 'anthropic',
+
+    async analyze(request: VisionRequest): Promise<VisionResponse> {
+      const { image, mediaType, prompt, followUps = [] } = request
+      const model = modelOverride || request.model || DEFAULT_MODEL
+      const body = JSON.stringify({
+        model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: mediaType,
+                  data: image
+                }
+              },
+              {
+                type: 'text',
+                text: prompt
+              }
+            ]
+          },
+          ...followUps.map(m => ({ role: m.role, content: m.text }))
+        ]
+      })
+
+      // Network failures (DNS, resets, timeouts) are upstream errors like any failed call
+      let response: Response
+      let data: AnthropicResponse
+      try {
+        response = await fetch(API_URL, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+          },
+          body,
+        })
+        data = await response.json().catch(() => {
+          if (response.ok) throw new Error('response body could not be read')
+          return {}
+        })
+      } catch (err) {
+        throw new VisionProviderError(`Anthropic API request failed: ${err instanceof Error ? err.message : String(err)}`, 502)
+      }
+
+      if (!response.ok) {
+        console.error('Anthropic API error:', data)
+        throw new VisionProviderError(data.error?.message || 'API request failed', response.status)
+      }
+
+      return {
+        text: data.content?.find(c => c.type === 'text')?.text || '',
+        model: data.model || model,
+        usage: data.usage,
+      }
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { createAnthropicProvider } from './anthropic'
+import { createMockProvider } from './mock'
+import { createReplayProvider } from './replay'
+import { VisionProvider, VisionProviderError } from './types'
+
+export * from './types'
+
+// Pick the vision backend from VISION_PROVIDER (defaults to anthropic)
+export function getVisionProvider(): VisionProvider {
+  const name = process.env.VISION_PROVIDER || 'anthropic'
+
+  switch (name) {
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY
+      if (!apiKey) {
+        throw new VisionProviderError('API key not configured', 500)
+      }
+      return createAnthropicProvider(apiKey, process.env.ANTHROPIC_MODEL || undefined)
+    }
+    case 'mock':
+      return createMockProvider(process.env.MOCK_VISION_FIXTURES || undefined)
+    case 'replay': {
+      const recordings = process.env.VISION_RECORDINGS
+      if (!recordings) {
+        throw new VisionProviderError('VISION_RECORDINGS not configured', 500)
+      }
+      return createReplayProvider(recordings)
+    }
+    default:
+      throw new VisionProviderError(`Unknown vision provider: ${name}`, 500)
+  }
+}
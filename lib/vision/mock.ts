@@ -0,0 +1,54 @@
+import { createHash } from 'crypto'
+import { readFileSync } from 'fs'
+import type { AnalysisResult } from '../types'
+import { VisionProvider, VisionRequest, VisionResponse } from './types'
+
+/**
+ * Offline backend for development and tests. Results come from a fixtures
+ * file keyed by the SHA-256 of the base64 image payload; images without a
+ * fixture get a level derived from that hash, so the same frame always
+ * produces the same reading. A fixture may also be a raw string, which is
+ * returned verbatim to exercise the validation and retry path.
+ */
+
+const MODEL = 'mock'
+
+type Fixtures = Record<string, AnalysisResult | string>
+
+function loadFixtures(file?: string): Fixtures {
+  if (!file) return {}
+  return JSON.parse(readFileSync(file, 'utf8')) as Fixtures
+}
+
+export function imageDigest(image: string): string {
+  return createHash('sha256').update(image).digest('hex')
+}
+
+function fallbackResult(digest: string): AnalysisResult {
+  return {
+    level: parseInt(digest.slice(0, 8), 16) % 101,
+    confidence: 'medium',
+    description: 'Mock analysis derived from the image hash',
+    feeder_visible: true,
+    birds: {
+      count: parseInt(digest.slice(8, 10), 16) % 3,
+      species: null,
+      species_confidence: null,
+    },
+  }
+}
+
+export function createMockProvider(fixturesFile?: string): VisionProvider {
+  const fixtures = loadFixtures(fixturesFile)
+
+  return {
+    name: 'mock',
+
+    async analyze({ image }: VisionRequest): Promise<VisionResponse> {
+      const digest = imageDigest(image)
+      const fixture = fixtures[digest] ?? fallbackResult(digest)
+      const text = typeof fixture === 'string' ? fixture : JSON.stringify(fixture)
+      return { text, model: MODEL }
+    },
+  }
+}
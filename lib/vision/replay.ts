@@ -0,0 +1,60 @@
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { VisionProvider, VisionProviderError, VisionRequest, VisionResponse } from './types'
+
+/**
+ * Recorded replies for repeatable offline runs. `recordResponses` wraps a
+ * live provider and saves every reply to a JSON file, keyed by a digest of
+ * the whole request (model settings, prompt, follow-ups and image), and the
+ * replay provider answers from that file. A request that was never recorded
+ * fails instead of falling back, so an edited prompt can't quietly reuse
+ * replies given to the old one.
+ */
+
+type Recordings = Record<string, VisionResponse>
+
+export function requestDigest(request: VisionRequest): string {
+  const { image, mediaType, prompt, followUps = [], model, maxTokens, temperature } = request
+  return createHash('sha256')
+    .update(JSON.stringify({ model, maxTokens, temperature, mediaType, prompt, followUps }))
+    .update(image)
+    .digest('hex')
+}
+
+function loadRecordings(file: string): Recordings {
+  if (!existsSync(file)) return {}
+  return JSON.parse(readFileSync(file, 'utf8')) as Recordings
+}
+
+export function createReplayProvider(file: string): VisionProvider {
+  const recordings = loadRecordings(file)
+
+  return {
+    name: 'replay',
+
+    async analyze(request: VisionRequest): Promise<VisionResponse> {
+      const recorded = recordings[requestDigest(request)]
+      if (!recorded) {
+        throw new VisionProviderError('No recorded response for this request', 404)
+      }
+      return recorded
+    },
+  }
+}
+
+// Pass requests through to the provider, saving each reply to the file
+export function recordResponses(provider: VisionProvider, file: string): VisionProvider {
+  const recordings = loadRecordings(file)
+
+  return {
+    name: provider.name,
+
+    async analyze(request: VisionRequest): Promise<VisionResponse> {
+      const digest = requestDigest(request)
+      const response = await provider.analyze(request)
+      recordings[digest] = response
+      writeFileSync(file, JSON.stringify(recordings, null, 2))
+      return response
+    },
+  }
+}
@@ -0,0 +1,45 @@
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/webp'
+
+export interface VisionMessage {
+  role: 'user' | 'assistant'
+  text: string
+}
+
+export interface VisionRequest {
+  image: string
+  mediaType: ImageMediaType
+  prompt: string
+  // Conversation turns after the initial prompt, e.g. correction requests
+  followUps?: VisionMessage[]
+  // Model settings from the prompt version; offline providers ignore them
+  model?: string
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface VisionUsage {
+  input_tokens: number
+  output_tokens: number
+}
+
+export interface VisionResponse {
+  text: string
+  model: string
+  usage?: VisionUsage
+}
+
+export interface VisionProvider {
+  name: string
+  analyze(request: VisionRequest): Promise<VisionResponse>
+}
+
+// Raised when the backend itself fails, as opposed to returning bad output
+export class VisionProviderError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = 'VisionProviderError'
+    this.status = status
+  }
+}
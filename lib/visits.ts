@@ -0,0 +1,67 @@
+import { readingsSince } from './readings'
+import type { Visit, VisitBucket } from './types'
+
+export type VisitBucketSize = 'hour' | 'day'
+
+export interface VisitQuery {
+  feederId?: string
+  from: Date
+  to: Date
+  bucket: VisitBucketSize
+  // Minutes to add to UTC for local bucket boundaries (-getTimezoneOffset())
+  utcOffset: number
+}
+
+export const BUCKET_MS: Record<VisitBucketSize, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+}
+
+// Scans that saw at least one bird in the range, newest first
+export async function listVisits(feederId: string | undefined, from: Date, to: Date): Promise<Visit[]> {
+  const readings = await readingsSince(feederId ?? null, from)
+  return readings
+    .filter(r => r.birds && r.birds.count > 0 && Date.parse(r.timestamp) <= to.getTime())
+    .reverse()
+    .map(r => ({
+      feeder_id: r.feeder_id,
+      reading_id: r.id,
+      count: r.birds.count,
+      species: r.birds.species,
+      species_confidence: r.birds.species_confidence,
+      timestamp: r.timestamp,
+    }))
+}
+
+/**
+ * Visit counts per hour or day. Scans are counted alongside visits so a
+ * quiet hour can be told apart from an hour nobody was watching.
+ */
+export async function summarizeVisits(query: VisitQuery): Promise<VisitBucket[]> {
+  const size = BUCKET_MS[query.bucket]
+  const offset = query.utcOffset * 60 * 1000
+  const bucketStart = (t: number) => Math.floor((t + offset) / size) * size - offset
+
+  const buckets = new Map<number, VisitBucket>()
+  for (let t = bucketStart(query.from.getTime()); t <= query.to.getTime(); t += size) {
+    buckets.set(t, { start: new Date(t).toISOString(), scans: 0, visits: 0, birds: 0, species: {} })
+  }
+
+  const readings = await readingsSince(query.feederId ?? null, query.from)
+
+  for (const reading of readings) {
+    const t = Date.parse(reading.timestamp)
+    if (t > query.to.getTime()) continue
+    const bucket = buckets.get(bucketStart(t))
+    if (!bucket) continue
+
+    bucket.scans++
+    const birds = reading.birds
+    if (!birds || birds.count === 0) continue
+    bucket.visits++
+    bucket.birds += birds.count
+    if (birds.species) bucket.species[birds.species] = (bucket.species[birds.species] || 0) + birds.count
+  }
+
+  return Array.from(buckets.values())
+}
@@ -3,6 +3,18 @@ const nextConfig = {
   output: 'standalone',
   basePath: '/hummiguard-ai',
   assetPrefix: '/hummiguard-ai',
+  async headers() {
+    return [
+      {
+        // Let the service worker control /hummiguard-ai itself, not just /hummiguard-ai/*
+        source: '/sw.js',
+        headers: [
+          { key: 'Service-Worker-Allowed', value: '/hummiguard-ai' },
+          { key: 'Cache-Control', value: 'no-cache' },
+        ],
+      },
+    ]
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { identify } from '@/lib/auth'
+
+// Keep pages and API routes behind an access token
+export function proxy(request: NextRequest) {
+  if (identify(request)) return NextResponse.next()
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const login = request.nextUrl.clone()
+  login.pathname = '/login'
+  login.search = `?next=${encodeURIComponent(request.nextUrl.pathname)}`
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  // Everything except the login flow, Next.js assets and the PWA files
+  matcher: ['/', '/((?!login|api/session|_next/|manifest\\.json|sw\\.js|icon).*)'],
+}
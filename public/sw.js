@@ -0,0 +1,93 @@
+/* HummiGuard AI service worker: shows low nectar push notifications and
+   keeps the app shell cached so the PWA opens without a connection */
+
+const SHELL_CACHE = 'hummiguard-shell-v1'
+const SCOPE = '/hummiguard-ai'
+const SHELL_URLS = [SCOPE, `${SCOPE}/manifest.json`, `${SCOPE}/icon.svg`]
+
+// Only cache real pages and assets, not login redirects or errors
+function cacheable(response) {
+  return response && response.ok && !response.redirected && response.type === 'basic'
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      Promise.all(SHELL_URLS.map((url) =>
+        fetch(url)
+          .then((response) => cacheable(response) ? cache.put(url, response) : undefined)
+          .catch(() => undefined)
+      ))
+    )
+  )
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Network first for pages and static assets, falling back to the cache
+// offline. API calls are never cached; the page queues scans itself.
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (!url.pathname.startsWith(SCOPE) || url.pathname.startsWith(`${SCOPE}/api/`)) return
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (cacheable(response)) {
+          const copy = response.clone()
+          event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy)))
+        }
+        return response
+      })
+      .catch(() =>
+        caches.match(request, { ignoreVary: true }).then((cached) => {
+          if (cached) return cached
+          // Any page of the app falls back to the main camera page
+          const fallback = request.mode === 'navigate' ? caches.match(SCOPE) : Promise.resolve(undefined)
+          return fallback.then((shell) => shell || Response.error())
+        })
+      )
+  )
+})
+
+self.addEventListener('push', (event) => {
+  let data = {}
+  try {
+    data = event.data ? event.data.json() : {}
+  } catch (err) {
+    data = { body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'HummiGuard AI', {
+      body: data.body || '',
+      tag: data.tag,
+      renotify: true,
+      icon: '/hummiguard-ai/icon-192.png',
+      badge: '/hummiguard-ai/icon-192.png',
+      data: { url: '/hummiguard-ai' },
+    })
+  )
+})
+
+// Focus an open HummiGuard tab, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/hummiguard-ai'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => new URL(w.url).pathname.startsWith('/hummiguard-ai'))
+      return open ? open.focus() : self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,207 @@
+/**
+ * Headless camera agent: captures a frame on a schedule and submits it to
+ * the analyze API, so a feeder can be watched without a browser tab open.
+ *
+ *   npm run agent -- --feeder <id> (--url <camera url> | --dir <path> | --command <cmd>) [options]
+ *
+ * Sources:
+ *   --url <url>        HTTP snapshot, MJPEG stream or rtsp:// URL (needs ffmpeg)
+ *   --dir <path>       directory the camera saves snapshots into; the newest
+ *                      new file is analyzed each time
+ *   --command <cmd>    shell command that writes one image to stdout
+ *
+ * Options:
+ *   --server <url>     app URL including the base path
+ *                      (default http://localhost:3003/hummiguard-ai)
+ *   --token <token>    access token, when tokens are enabled
+ *                      (default $HUMMIGUARD_AGENT_TOKEN)
+ *   --interval <sec>   seconds between captures (default 60)
+ *   --loop             with --dir, cycle through every image, e.g. a folder of samples
+ *   --once             capture and analyze a single frame, then exit
+ *
+ * The feeder's calibration is fetched before every capture and applied the
+ * same way as on the camera page, and its alert threshold and notifications
+ * are handled by the server as usual. Outside the feeder's scheduled hours the
+ * agent sleeps, and frames that fail the quality check (too dark, blurry,
+ * camera moved, ...) are skipped, with a quick retry when the problem may
+ * pass.
+ */
+
+import { parseArgs } from 'util'
+import { createCommandSource, createDirectorySource, createUrlSource, FrameSource, prepareFrame, sampleImage } from '@/lib/capture'
+import { SAMPLE_HEIGHT, SAMPLE_WIDTH } from '@/lib/frames'
+import {
+  createQualityGate,
+  MAX_QUALITY_RETRIES,
+  QUALITY_ISSUE_LABELS,
+  QUALITY_LIMITS,
+  QUALITY_RETRY_SECONDS,
+  QUALITY_SAMPLE_HEIGHT,
+  QUALITY_SAMPLE_WIDTH,
+  QualityGate,
+  TRANSIENT_ISSUES,
+} from '@/lib/quality'
+import type { AnalyzeResponse, Feeder, ScheduleStatus } from '@/lib/types'
+
+const DEFAULT_SERVER = 'http://localhost:3003/hummiguard-ai'
+const DEFAULT_INTERVAL = 60
+// Longest sleep while outside the schedule, so schedule edits are picked up
+const MAX_SCHEDULE_WAIT = 15 * 60
+
+function log(message: string) {
+  console.log(`${new Date().toISOString()} ${message}`)
+}
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+const sleep = (seconds: number) => new Promise(resolve => setTimeout(resolve, seconds * 1000))
+
+interface AgentOptions {
+  server: string
+  feederId: string
+  token?: string
+  source: FrameSource
+  quality: QualityGate
+  // Quick retries in a row after a transient quality problem
+  qualityRetries: number
+}
+
+async function request<T>(options: AgentOptions, path: string, init: RequestInit = {}): Promise<{ status: number, body: T }> {
+  const response = await fetch(`${options.server}/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+  })
+  if (response.status === 401) {
+    fail('The server rejected the access token; set HUMMIGUARD_AGENT_TOKEN or --token')
+  }
+  return { status: response.status, body: await response.json().catch(() => ({})) as T }
+}
+
+// Capture and analyze one frame; returns how many seconds to wait before the next
+async function scan(options: AgentOptions, interval: number): Promise<number> {
+  const feederResponse = await request<Feeder & { error?: string }>(options, `/feeders/${encodeURIComponent(options.feederId)}`)
+  if (feederResponse.status !== 200) {
+    throw new Error(feederResponse.body.error || `Feeder lookup failed with HTTP ${feederResponse.status}`)
+  }
+  const feeder = feederResponse.body
+
+  const scheduleResponse = await request<ScheduleStatus>(options, `/feeders/${encodeURIComponent(feeder.id)}/schedule`)
+  const schedule = scheduleResponse.status === 200 ? scheduleResponse.body : null
+  if (schedule && !schedule.active) {
+    const until = schedule.resumes_at ? (Date.parse(schedule.resumes_at) - Date.now()) / 1000 : MAX_SCHEDULE_WAIT
+    log(`Outside ${feeder.name}'s scan hours${schedule.resumes_at ? `; resuming at ${new Date(schedule.resumes_at).toLocaleTimeString()}` : ''}`)
+    return Math.ceil(Math.min(Math.max(until, 1), MAX_SCHEDULE_WAIT))
+  }
+
+  const frame = await options.source.next()
+  if (!frame) {
+    log('No new frame')
+    return interval
+  }
+
+  const image = await prepareFrame(frame, feeder.calibration)
+  const { quality, issue } = options.quality.check(
+    await sampleImage(image, QUALITY_SAMPLE_WIDTH, QUALITY_SAMPLE_HEIGHT),
+    await sampleImage(image, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+  )
+  if (issue) {
+    const retry = TRANSIENT_ISSUES.includes(issue) && options.qualityRetries < MAX_QUALITY_RETRIES
+    options.qualityRetries = retry ? options.qualityRetries + 1 : 0
+    const wait = retry ? Math.min(QUALITY_RETRY_SECONDS, interval) : interval
+    log(`Skipped: ${QUALITY_ISSUE_LABELS[issue]} (brightness ${quality.brightness}, contrast ${quality.contrast}, sharpness ${quality.sharpness}); next capture in ${wait}s`)
+    return wait
+  }
+  options.qualityRetries = 0
+
+  const { status, body } = await request<AnalyzeResponse & { error?: string, code?: string, retry_after?: number }>(options, '/analyze', {
+    method: 'POST',
+    body: JSON.stringify({
+      image: image.toString('base64'),
+      feeder_id: feeder.id,
+      calibration: feeder.calibration
+        ? { empty_line: feeder.calibration.empty_line, full_line: feeder.calibration.full_line }
+        : undefined,
+      quality,
+    }),
+  })
+
+  if (status === 429) {
+    // Rate limit, daily quota or monthly budget: wait as long as the server says
+    const wait = Math.max(body.retry_after || interval, interval)
+    log(`${body.error} (${body.code}); next capture in ${wait}s`)
+    return wait
+  }
+  if (status !== 200) {
+    throw new Error(`${body.error || `HTTP ${status}`}${body.code ? ` (${body.code})` : ''}`)
+  }
+
+  const level = body.feeder_visible && body.level >= 0
+    ? `${body.smoothed_level ?? body.level}% (${body.confidence} confidence, threshold ${feeder.threshold}%)`
+    : 'feeder not visible'
+  const moved = (quality.shift ?? 0) > QUALITY_LIMITS.maxShift ? '; the camera moved, check the calibration' : ''
+  log(`${feeder.name}: ${level}${body.alert_active ? ' — ALERT' : ''}${body.birds.count > 0 ? `, ${body.birds.count} bird(s)` : ''}${moved}`)
+  return interval
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      server: { type: 'string', default: DEFAULT_SERVER },
+      token: { type: 'string' },
+      feeder: { type: 'string', default: 'default' },
+      url: { type: 'string' },
+      dir: { type: 'string' },
+      command: { type: 'string' },
+      interval: { type: 'string', default: String(DEFAULT_INTERVAL) },
+      loop: { type: 'boolean', default: false },
+      once: { type: 'boolean', default: false },
+    },
+  })
+
+  const sources = [values.url, values.dir, values.command].filter(Boolean)
+  if (sources.length !== 1) {
+    fail('Usage: npm run agent -- --feeder <id> (--url <camera url> | --dir <path> | --command <cmd>) [--server url] [--token token] [--interval sec] [--loop] [--once]')
+  }
+
+  const interval = Number(values.interval)
+  if (!Number.isFinite(interval) || interval < 1) {
+    fail('--interval must be at least 1 second')
+  }
+
+  const source = values.url
+    ? createUrlSource(values.url)
+    : values.dir
+      ? createDirectorySource(values.dir, values.loop)
+      : createCommandSource(values.command as string)
+
+  const options: AgentOptions = {
+    server: values.server.replace(/\/$/, ''),
+    feederId: values.feeder,
+    token: values.token || process.env.HUMMIGUARD_AGENT_TOKEN || undefined,
+    source,
+    quality: createQualityGate(),
+    qualityRetries: 0,
+  }
+
+  log(`Watching feeder "${options.feederId}" from ${source.description}, every ${interval}s`)
+
+  for (;;) {
+    let wait = interval
+    try {
+      wait = await scan(options, interval)
+    } catch (err) {
+      log(`Scan failed: ${err instanceof Error ? err.message : String(err)}`)
+      if (values.once) process.exit(1)
+    }
+    if (values.once) break
+    await sleep(wait)
+  }
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)))
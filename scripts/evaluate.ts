@@ -0,0 +1,119 @@
+/**
+ * Score prompt versions against labeled frames.
+ *
+ *   npm run evaluate -- <directory or dataset.jsonl> [options]
+ *
+ * The input is either a directory of images, each with a JSON label of the
+ * same name ({ "level": 40, "feeder_visible": true }), or a dataset export
+ * from GET /api/dataset?images=inline. The vision backend is chosen by
+ * VISION_PROVIDER as in the app; use `mock`, or `replay` with
+ * VISION_RECORDINGS, to run offline.
+ *
+ * Options:
+ *   --prompt <v1,v2|all>  prompt versions to compare (default: the active one)
+ *   --record <file>       save every reply to a recordings file for replay
+ *   --json                print the full reports, including every frame
+ *   --verbose             print each frame's result as it is scored
+ */
+
+import { parseArgs } from 'util'
+import { EvaluationCase, EvaluationReport, evaluatePrompt, loadLabeledImages } from '@/lib/evaluation'
+import { activePromptVersion, getPromptVersion, PROMPT_VERSIONS, PromptVersion } from '@/lib/prompt'
+import { getVisionProvider } from '@/lib/vision'
+import { recordResponses } from '@/lib/vision/replay'
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+function selectVersions(option: string | undefined): PromptVersion[] {
+  if (!option) return [activePromptVersion()]
+  if (option === 'all') return PROMPT_VERSIONS
+
+  return option.split(',').map(version => {
+    const config = getPromptVersion(version.trim())
+    if (!config) {
+      fail(`Unknown prompt version: ${version} (available: ${PROMPT_VERSIONS.map(p => p.version).join(', ')})`)
+    }
+    return config
+  })
+}
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`
+}
+
+function describeCase(c: EvaluationCase): string {
+  const expected = c.label.feeder_visible ? `${c.label.level}%` : 'not visible'
+  const got = c.failure
+    ?? (c.result?.feeder_visible ? `${c.result.level}% (${c.result.confidence})` : `not visible (${c.result?.confidence})`)
+  return `  ${c.name}: expected ${expected}, got ${got}${c.attempts > 1 ? `, ${c.attempts} attempts` : ''}`
+}
+
+function printReport(report: EvaluationReport) {
+  const rows: [string, string][] = [
+    ['Model', report.model ?? '—'],
+    ['Frames', String(report.examples)],
+    ['Mean absolute error', report.mae !== null ? `${report.mae} pts` : '—'],
+    ['Visibility agreement', percent(report.visibility_agreement)],
+    ['Parse failures', percent(report.parse_failure_rate)],
+    ['Needed a retry', percent(report.retry_rate)],
+    ['Upstream errors', String(report.upstream_errors)],
+    ['Tokens in / out', `${report.input_tokens} / ${report.output_tokens}`],
+    ['Estimated cost', `$${report.cost_usd.toFixed(4)}`],
+  ]
+
+  console.log(`\nPrompt ${report.version}`)
+  for (const [label, value] of rows) {
+    console.log(`  ${label.padEnd(22)} ${value}`)
+  }
+
+  console.log(`  Confidence calibration (within ±${report.tolerance} pts):`)
+  for (const [confidence, bucket] of Object.entries(report.by_confidence)) {
+    const mae = bucket.mae !== null ? `±${bucket.mae} pts` : '—'
+    console.log(`    ${confidence.padEnd(7)} ${String(bucket.count).padStart(4)} frames  ${percent(bucket.within_tolerance).padStart(4)} within  MAE ${mae}`)
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      prompt: { type: 'string' },
+      record: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+    },
+  })
+
+  const [source] = positionals
+  if (!source) {
+    fail('Usage: npm run evaluate -- <directory or dataset.jsonl> [--prompt v1,v2|all] [--record file] [--json] [--verbose]')
+  }
+
+  const versions = selectVersions(values.prompt)
+  const examples = await loadLabeledImages(source)
+  if (examples.length === 0) {
+    fail(`No labeled images found in ${source}`)
+  }
+
+  const live = getVisionProvider()
+  const provider = values.record ? recordResponses(live, values.record) : live
+  console.error(`Evaluating ${examples.length} frames with ${provider.name}`)
+
+  const reports: EvaluationReport[] = []
+  for (const version of versions) {
+    reports.push(await evaluatePrompt(provider, version, examples, c => {
+      if (values.verbose) console.error(describeCase(c))
+    }))
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(reports, null, 2))
+  } else {
+    reports.forEach(printReport)
+  }
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)))